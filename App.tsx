@@ -1,64 +1,214 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { Button } from './components/Button';
-import { Spinner } from './components/Spinner';
 import { DownloadIcon } from './components/icons/DownloadIcon';
 import { ConvertIcon } from './components/icons/ConvertIcon';
-import { fileToBase64 } from './utils/fileUtils';
-import { convertPdfToCsv } from './services/geminiService';
+import { AbbreviationSettings } from './components/AbbreviationSettings';
+import { ExportProfileSettings } from './components/ExportProfileSettings';
+import { RunsheetTemplateSettings } from './components/RunsheetTemplateSettings';
+import { ValidationReport } from './components/ValidationReport';
+import { ResultsGrid } from './components/ResultsGrid';
+import { PdfPageViewer } from './components/PdfPageViewer';
+import { JobQueue } from './components/JobQueue';
+import { ConversionSummary } from './components/ConversionSummary';
+import { HistoryPanel } from './components/HistoryPanel';
+import { RunsheetDiffPanel } from './components/RunsheetDiffPanel';
+import { DailySummaryReport } from './components/DailySummaryReport';
+import { useConversionQueue } from './hooks/useConversionQueue';
+import { useConversionHistory } from './hooks/useConversionHistory';
+import { ExportBatch, exportBatches, exportExtension } from './services/exportFormats';
+import { templateAbbreviations, templateForResult, validateWithTemplate } from './services/templateService';
+import { imageUploadsToPdfs, UploadDocument } from './services/imageDocumentService';
+import { formatMegabytes, MAX_UPLOAD_BYTES } from './services/convertApi';
+import { loadAbbreviationOverrides, saveAbbreviationOverrides } from './utils/abbreviationStorage';
+import {
+  loadCustomExportProfiles,
+  loadSelectedExportProfileId,
+  saveCustomExportProfiles,
+  saveSelectedExportProfileId,
+} from './utils/exportProfileStorage';
+import { loadCustomTemplates, loadSelectedTemplateId, saveCustomTemplates, saveSelectedTemplateId } from './utils/templateStorage';
+import { loadConsensusMode, saveConsensusMode } from './utils/consensusStorage';
+import { DEFAULT_EXPORT_PROFILES } from './data/exportProfiles';
+import { DEFAULT_TEMPLATES } from './data/runsheetTemplates';
+import { ConversionResult, ExportFormat, HistoryEntry } from './types';
+import { downloadBlob } from './utils/downloadUtils';
+import { createZip } from './utils/zipUtils';
+
+const baseName = (fileName: string) => fileName.replace(/\.[^/.]+$/, "") || "runsheet";
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  json: 'JSON',
+};
 
 const App: React.FC = () => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  const [progressMessage, setProgressMessage] = useState<string | null>(null);
-  const [csvData, setCsvData] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
-
-  const handleFileSelect = (file: File | null) => {
-    setSelectedFile(file);
-    setCsvData(null);
-    setError(null);
-    setProgressMessage(null);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [selectedRowIndex, setSelectedRowIndex] = useState<number | null>(null);
+  const [abbreviationOverrides, setAbbreviationOverrides] = useState(loadAbbreviationOverrides);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [customExportProfiles, setCustomExportProfiles] = useState(loadCustomExportProfiles);
+  const [exportProfileId, setExportProfileId] = useState(() => loadSelectedExportProfileId() ?? DEFAULT_EXPORT_PROFILES[0].id);
+  const [showExportSettings, setShowExportSettings] = useState<boolean>(false);
+  const [customTemplates, setCustomTemplates] = useState(loadCustomTemplates);
+  const [templateId, setTemplateId] = useState(loadSelectedTemplateId);
+  const [showTemplateSettings, setShowTemplateSettings] = useState<boolean>(false);
+  const [consensus, setConsensus] = useState(loadConsensusMode);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const pdfViewerRef = useRef<HTMLDivElement>(null);
+
+  const templates = useMemo(() => [...DEFAULT_TEMPLATES, ...customTemplates], [customTemplates]);
+  // A deleted custom template falls back to detecting the layout
+  const selectedTemplateId = templates.some(template => template.id === templateId) ? templateId : 'auto';
+  const conversionSettings = useMemo(
+    () => ({ abbreviations: abbreviationOverrides, templateId: selectedTemplateId, customTemplates, consensus }),
+    [abbreviationOverrides, selectedTemplateId, customTemplates, consensus]
+  );
+  const history = useConversionHistory();
+  const {
+    jobs,
+    isPaused,
+    addFiles,
+    startAll,
+    cancelJob,
+    retryJob,
+    removeJob,
+    updateJobTrips,
+    acceptCachedResult,
+    openHistoryEntry,
+  } = useConversionQueue(conversionSettings, history);
+
+  useEffect(() => {
+    saveAbbreviationOverrides(abbreviationOverrides);
+  }, [abbreviationOverrides]);
+
+  useEffect(() => {
+    saveCustomExportProfiles(customExportProfiles);
+  }, [customExportProfiles]);
+
+  useEffect(() => {
+    saveSelectedExportProfileId(exportProfileId);
+  }, [exportProfileId]);
+
+  useEffect(() => {
+    saveCustomTemplates(customTemplates);
+  }, [customTemplates]);
+
+  useEffect(() => {
+    saveSelectedTemplateId(templateId);
+  }, [templateId]);
+
+  useEffect(() => {
+    saveConsensusMode(consensus);
+  }, [consensus]);
+
+  const exportProfiles = [...DEFAULT_EXPORT_PROFILES, ...customExportProfiles];
+  const exportProfile = exportProfiles.find(profile => profile.id === exportProfileId) ?? DEFAULT_EXPORT_PROFILES[0];
+  const extension = exportExtension(exportFormat, exportProfile);
+  const formatLabel = exportFormat === 'csv' ? extension.toUpperCase() : EXPORT_FORMAT_LABELS[exportFormat];
+
+  const completedJobs = jobs.filter(job => job.status === 'done' && job.result);
+  const readyCount = jobs.filter(job => job.status === 'ready' && !job.cachedEntry).length;
+  const isProcessing = jobs.some(job => job.status === 'queued' || job.status === 'processing');
+
+  // Review the chosen file, or the first finished one until the user picks another
+  const selectedJob = completedJobs.find(job => job.id === selectedJobId) ?? completedJobs[0] ?? null;
+  const trips = selectedJob?.result?.trips ?? null;
+  const selectedTemplate = selectedJob?.result ? templateForResult(selectedJob.result.template, templates) : null;
+  // Any saved conversion but the one under review can serve as the earlier runsheet
+  const diffEntries = history.entries.filter(entry => entry.id !== selectedJob?.historyId);
+
+  // Re-validated on every edit so the highlights follow the dispatcher's fixes
+  const issues = useMemo(
+    () => (trips && selectedTemplate ? validateWithTemplate(trips, selectedTemplate, abbreviationOverrides) : []),
+    [trips, selectedTemplate, abbreviationOverrides]
+  );
+  const reportDictionary = useMemo(
+    () => (selectedTemplate ? templateAbbreviations(selectedTemplate, abbreviationOverrides) : null),
+    [selectedTemplate, abbreviationOverrides]
+  );
+
+  const handleFilesSelect = async (files: File[], { combineImages }: { combineImages: boolean }) => {
+    let uploads: UploadDocument[];
+    try {
+      uploads = await imageUploadsToPdfs(files, combineImages);
+    } catch (error) {
+      console.error(error);
+      alert('One of the images could not be read. Check that it is a valid JPG or PNG file.');
+      return;
+    }
+    // Images are already scaled down, so a runsheet still over the limit has too many of them
+    const tooLarge = uploads.filter(upload => upload.images.length > 0 && upload.file.size > MAX_UPLOAD_BYTES);
+    addFiles(uploads.filter(upload => !tooLarge.includes(upload)).map(upload => upload.file));
+    if (tooLarge.length > 0) {
+      const names = tooLarge.map(upload => `${upload.images.join(', ')} (${formatMegabytes(upload.file.size)})`).join('; ');
+      alert(`These images come to more than the ${formatMegabytes(MAX_UPLOAD_BYTES)} upload limit even after scaling them down, so they were not added: ${names}. Convert them in smaller groups.`);
+    }
+  };
+
+  const handleSelectJob = (id: string) => {
+    setSelectedJobId(id);
+    setSelectedRowIndex(null);
+  };
+
+  // On narrow screens the viewer sits below the table, out of sight
+  const handleJumpToSource = (rowIndex: number) => {
+    setSelectedRowIndex(rowIndex);
+    pdfViewerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  const handleRemoveJob = (id: string) => {
+    removeJob(id);
+    if (id === selectedJob?.id) setSelectedRowIndex(null);
   };
 
-  const handleConvert = useCallback(async () => {
-    if (!selectedFile) return;
+  // Validated afresh so the exported issues match the edited trips
+  const toExportBatch = (fileName: string, result: ConversionResult): ExportBatch => ({
+    fileName,
+    trips: result.trips,
+    issues: validateWithTemplate(result.trips, templateForResult(result.template, templates), abbreviationOverrides),
+    failedPages: result.failedPages,
+  });
 
-    setIsProcessing(true);
-    setError(null);
-    setCsvData(null);
-    setProgressMessage('Initializing...');
+  const handleDownload = async () => {
+    if (completedJobs.length === 0) return;
+    const fileName = completedJobs.length === 1 ? baseName(completedJobs[0].file.name) : 'runsheets-combined';
+    try {
+      const blob = await exportBatches(completedJobs.map(job => toExportBatch(job.file.name, job.result!)), exportFormat, exportProfile);
+      downloadBlob(blob, `${fileName}.${extension}`);
+    } catch (error) {
+      console.error(error);
+      alert(`The ${formatLabel} file could not be created.`);
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    try {
+      const files = await Promise.all(completedJobs.map(async job => ({
+        name: `${baseName(job.file.name)}.${extension}`,
+        content: await exportBatches([toExportBatch(job.file.name, job.result!)], exportFormat, exportProfile),
+      })));
+      downloadBlob(await createZip(files), 'runsheets.zip');
+    } catch (error) {
+      console.error(error);
+      alert('The ZIP file could not be created.');
+    }
+  };
+
+  const handleOpenHistoryEntry = (entry: HistoryEntry) => {
+    handleSelectJob(openHistoryEntry(entry));
+  };
 
+  const handleDownloadHistoryEntry = async (entry: HistoryEntry) => {
     try {
-      const base64File = await fileToBase64(selectedFile);
-      const generatedCsv = await convertPdfToCsv(base64File, selectedFile.type, setProgressMessage);
-      setCsvData(generatedCsv);
-    } catch (err) {
-      console.error(err);
-      setError(err instanceof Error ? err.message : 'An unknown error occurred during conversion.');
-    } finally {
-      setIsProcessing(false);
-      setProgressMessage(null);
+      const blob = await exportBatches([toExportBatch(entry.fileName, entry.result)], exportFormat, exportProfile);
+      downloadBlob(blob, `${baseName(entry.fileName)}.${extension}`);
+    } catch (error) {
+      console.error(error);
+      alert(`The ${formatLabel} file for ${entry.fileName} could not be created.`);
     }
-  }, [selectedFile]);
-
-  const handleDownload = () => {
-    if (!csvData) return;
-
-    const blob = new Blob([csvData], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    
-    const originalFileName = selectedFile?.name.replace(/\.[^/.]+$/, "") || "runsheet";
-    link.download = `${originalFileName}.csv`;
-    
-    document.body.appendChild(link);
-    link.click();
-    
-    // Clean up after download to prevent memory leaks
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
   };
 
   return (
@@ -75,59 +225,259 @@ const App: React.FC = () => {
 
         <main className="bg-gray-800 rounded-2xl shadow-2xl p-6 md:p-8 border border-gray-700">
           <div className="space-y-6">
-            <FileUpload onFileSelect={handleFileSelect} disabled={isProcessing} />
-            
+            <FileUpload onFilesSelect={handleFilesSelect} />
+
+            <label className="flex items-center gap-3 text-sm text-gray-300">
+              Runsheet template
+              <select
+                value={selectedTemplateId}
+                onChange={e => setTemplateId(e.target.value)}
+                className="flex-1 px-3 py-2 rounded-md bg-gray-900 border border-gray-600 text-gray-100"
+              >
+                <option value="auto">Detect from page 1</option>
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex items-start gap-3 text-sm text-gray-300">
+              <input type="checkbox" checked={consensus} onChange={e => setConsensus(e.target.checked)} className="mt-1" />
+              <span>
+                High accuracy: have the AI read each page twice and flag the fields the two readings disagree on.
+                <span className="block text-gray-400">Takes about twice as long. Pages read from the PDF's text layer are not affected.</span>
+              </span>
+            </label>
+
+            {jobs.length > 0 && (
+              <JobQueue
+                jobs={jobs}
+                selectedJobId={selectedJob?.id ?? null}
+                onSelect={handleSelectJob}
+                onCancel={cancelJob}
+                onRetry={retryJob}
+                onRemove={handleRemoveJob}
+                onUseCached={acceptCachedResult}
+              />
+            )}
+
+            {isPaused && (
+              <p className="text-sm text-yellow-300 text-center">The AI model is busy. The queue will resume shortly.</p>
+            )}
+
+            {completedJobs.length > 0 && (
+              <div className="flex flex-col sm:flex-row gap-4 text-sm text-gray-300">
+                <label className="flex flex-1 items-center gap-3">
+                  Export profile
+                  <select
+                    value={exportProfile.id}
+                    onChange={e => setExportProfileId(e.target.value)}
+                    disabled={exportFormat === 'json'}
+                    title={exportFormat === 'json' ? 'The JSON export always uses its documented schema' : undefined}
+                    className="flex-1 px-3 py-2 rounded-md bg-gray-900 border border-gray-600 text-gray-100 disabled:opacity-50"
+                  >
+                    {exportProfiles.map(profile => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-3">
+                  Format
+                  <select
+                    value={exportFormat}
+                    onChange={e => setExportFormat(e.target.value as ExportFormat)}
+                    className="px-3 py-2 rounded-md bg-gray-900 border border-gray-600 text-gray-100"
+                  >
+                    {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                      <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
+
             <div className="flex flex-col sm:flex-row gap-4">
               <Button
-                onClick={handleConvert}
-                disabled={!selectedFile || isProcessing}
+                onClick={startAll}
+                disabled={readyCount === 0}
                 className="w-full"
               >
-                {isProcessing ? (
-                  <>
-                    <Spinner />
-                    {progressMessage || 'Processing...'}
-                  </>
-                ) : (
-                  <>
-                    <ConvertIcon />
-                    Convert to CSV
-                  </>
-                )}
+                <ConvertIcon />
+                {readyCount > 1 ? `Convert ${readyCount} Files` : 'Convert to CSV'}
               </Button>
               <Button
                 onClick={handleDownload}
-                disabled={!csvData || isProcessing}
+                disabled={completedJobs.length === 0 || isProcessing}
                 className="w-full"
                 variant="secondary"
               >
                 <DownloadIcon />
-                Download CSV
+                {completedJobs.length > 1 ? `Download Combined ${formatLabel}` : `Download ${formatLabel}`}
               </Button>
             </div>
+            {completedJobs.length > 1 && (
+              <Button
+                onClick={handleDownloadZip}
+                disabled={isProcessing}
+                className="w-full"
+                variant="secondary"
+              >
+                <DownloadIcon />
+                Download ZIP of {completedJobs.length} {formatLabel} Files
+              </Button>
+            )}
           </div>
-          
-          {error && (
-            <div className="mt-6 p-4 bg-red-900/50 text-red-300 border border-red-700 rounded-lg text-center">
-              <p className="font-semibold">Conversion Failed</p>
-              <p className="text-sm">{error}</p>
+
+          {selectedJob?.result && (
+            <ConversionSummary fileName={selectedJob.file.name} result={selectedJob.result} issueCount={issues.length} />
+          )}
+
+          {issues.length > 0 && <ValidationReport issues={issues} />}
+        </main>
+
+        {history.isAvailable && (
+          <section className="mt-6 bg-gray-800 rounded-2xl p-6 border border-gray-700">
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="w-full flex justify-between items-center text-left text-gray-200 font-semibold"
+            >
+              Conversion History ({history.entries.length})
+              <span className="text-sm text-gray-400">{showHistory ? 'Hide' : 'Show'}</span>
+            </button>
+            {showHistory && (
+              <div className="mt-4">
+                <p className="text-sm text-gray-400 mb-4">
+                  Conversions and your edits to them are saved in this browser. Downloads use the export profile and format chosen above.
+                </p>
+                <HistoryPanel
+                  entries={history.entries}
+                  onOpen={handleOpenHistoryEntry}
+                  onDownload={handleDownloadHistoryEntry}
+                  onDelete={history.deleteEntry}
+                />
+              </div>
+            )}
+          </section>
+        )}
+
+        <section className="mt-6 bg-gray-800 rounded-2xl p-6 border border-gray-700">
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className="w-full flex justify-between items-center text-left text-gray-200 font-semibold"
+          >
+            Abbreviation Settings
+            <span className="text-sm text-gray-400">{showSettings ? 'Hide' : 'Show'}</span>
+          </button>
+          {showSettings && (
+            <div className="mt-4">
+              <p className="text-sm text-gray-400 mb-4">
+                City and comment codes are expanded after extraction. Add a code or override a default; your codes apply on top of every runsheet template's own and are saved in this browser.
+              </p>
+              <AbbreviationSettings overrides={abbreviationOverrides} onChange={setAbbreviationOverrides} />
             </div>
           )}
-          
-          {csvData && !error && (
-              <div className="mt-6 p-4 bg-green-900/50 text-green-300 border border-green-700 rounded-lg text-center">
-                <p className="font-semibold">Conversion Successful!</p>
-                <p className="text-sm">Your CSV file is ready for download.</p>
+        </section>
+
+        <section className="mt-6 bg-gray-800 rounded-2xl p-6 border border-gray-700">
+          <button
+            onClick={() => setShowTemplateSettings(!showTemplateSettings)}
+            className="w-full flex justify-between items-center text-left text-gray-200 font-semibold"
+          >
+            Runsheet Templates
+            <span className="text-sm text-gray-400">{showTemplateSettings ? 'Hide' : 'Show'}</span>
+          </button>
+          {showTemplateSettings && (
+            <div className="mt-4">
+              <p className="text-sm text-gray-400 mb-4">
+                Each transit provider's layout: its column headings, codes, date order and the rules its rows are checked against. The layout is detected from page 1's headings unless you choose one above. Templates are saved in this browser.
+              </p>
+              <RunsheetTemplateSettings templates={customTemplates} onChange={setCustomTemplates} />
             </div>
           )}
-        </main>
+        </section>
+
+        <section className="mt-6 bg-gray-800 rounded-2xl p-6 border border-gray-700">
+          <button
+            onClick={() => setShowExportSettings(!showExportSettings)}
+            className="w-full flex justify-between items-center text-left text-gray-200 font-semibold"
+          >
+            Export Profiles
+            <span className="text-sm text-gray-400">{showExportSettings ? 'Hide' : 'Show'}</span>
+          </button>
+          {showExportSettings && (
+            <div className="mt-4">
+              <p className="text-sm text-gray-400 mb-4">
+                Choose which columns each download contains, what they're called, their order, and the date, time and delimiter format. Profiles are saved in this browser.
+              </p>
+              <ExportProfileSettings
+                profiles={customExportProfiles}
+                selectedId={exportProfile.id}
+                onSelect={setExportProfileId}
+                onChange={setCustomExportProfiles}
+              />
+            </div>
+          )}
+        </section>
 
         <footer className="text-center mt-8 text-gray-500 text-sm">
           <p>Powered by Gemini AI</p>
         </footer>
       </div>
+
+      {selectedJob && trips && (
+        <section className="w-full max-w-7xl mx-auto mt-8 bg-gray-800 rounded-2xl p-6 border border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-200 mb-1">Review Trips · {selectedJob.file.name}</h2>
+          <p className="text-sm text-gray-400 mb-4">
+            Edit any cell before downloading. Highlighted cells break a validation rule; select a row to check it against the PDF.
+          </p>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <ResultsGrid
+                trips={trips}
+                issues={issues}
+                selectedIndex={selectedRowIndex}
+                onSelect={setSelectedRowIndex}
+                onJumpToSource={handleJumpToSource}
+                onChange={updated => updateJobTrips(selectedJob.id, updated)}
+              />
+            </div>
+            <div ref={pdfViewerRef}>
+              <PdfPageViewer
+                file={selectedJob.file}
+                source={selectedRowIndex !== null ? trips[selectedRowIndex]?.source ?? null : null}
+              />
+            </div>
+          </div>
+
+          {reportDictionary && (
+            <div className="mt-6">
+              <h3 className="text-lg font-semibold text-gray-200 mb-1">Daily summary</h3>
+              <p className="text-sm text-gray-400 mb-3">
+                Totals per day and run, with passenger counts from Nb. and the trips needing a device or a support person. Each run's manifest lists its stops in pickup-time order.
+              </p>
+              <DailySummaryReport fileName={selectedJob.file.name} trips={trips} dictionary={reportDictionary} />
+            </div>
+          )}
+
+          {diffEntries.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-lg font-semibold text-gray-200 mb-1">Compare with an earlier conversion</h3>
+              <p className="text-sm text-gray-400 mb-3">
+                For a revised runsheet: lists the trips added, removed or changed since a saved conversion, matched on Run Num and Customer ID.
+              </p>
+              <RunsheetDiffPanel
+                // Keyed by file so switching files clears the chosen conversion
+                key={selectedJob.id}
+                fileName={selectedJob.file.name}
+                trips={trips}
+                entries={diffEntries}
+              />
+            </div>
+          )}
+        </section>
+      )}
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
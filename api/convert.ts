@@ -0,0 +1,135 @@
+import { ConvertStreamEvent } from '../types';
+import { convertPdfToCsv } from '../services/geminiService';
+import { createExtractionBackend, ExtractionBackend } from '../services/extractionBackend';
+import { loadBackendConfigFromEnv, loadExtractionCacheFromEnv, loadMileageConfigFromEnv } from '../services/backendConfig';
+import { ExtractionCache } from '../services/extractionCache';
+import { createDistanceProvider, DistanceProvider } from '../services/mileageService';
+import { parseAbbreviationJson } from '../services/abbreviationService';
+import { findTemplate, parseRunsheetTemplatesJson } from '../services/templateService';
+import { AbbreviationDictionary } from '../data/abbreviations';
+import { DEFAULT_TEMPLATES } from '../data/runsheetTemplates';
+import { MAX_UPLOAD_BYTES } from '../services/convertApi';
+import { RunsheetTemplate } from '../types';
+
+// Created on the first request and kept while the function instance stays warm
+let extractionCache: ExtractionCache | null | undefined;
+
+const jsonError = (status: number, message: string): Response => {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+export async function POST(request: Request): Promise<Response> {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return jsonError(400, 'Expected a multipart/form-data upload.');
+  }
+
+  const file = formData.get('file');
+  if (!(file instanceof Blob)) {
+    return jsonError(400, 'No PDF file was uploaded.');
+  }
+  if (file.type !== 'application/pdf') {
+    return jsonError(415, 'Please upload a valid PDF file.');
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return jsonError(413, 'The PDF file is too large to convert.');
+  }
+
+  let abbreviations: AbbreviationDictionary | undefined;
+  const abbreviationField = formData.get('abbreviations');
+  if (typeof abbreviationField === 'string') {
+    try {
+      abbreviations = parseAbbreviationJson(abbreviationField);
+    } catch (err) {
+      return jsonError(400, err instanceof Error ? err.message : 'Invalid abbreviation dictionary.');
+    }
+  }
+
+  // Custom templates come with each upload; 'auto' or no choice detects the layout
+  let templates = DEFAULT_TEMPLATES;
+  const templatesField = formData.get('templates');
+  if (typeof templatesField === 'string') {
+    try {
+      templates = [...DEFAULT_TEMPLATES, ...parseRunsheetTemplatesJson(templatesField)];
+    } catch (err) {
+      return jsonError(400, err instanceof Error ? err.message : 'Invalid runsheet templates.');
+    }
+  }
+  let template: RunsheetTemplate | undefined;
+  const templateField = formData.get('template');
+  if (typeof templateField === 'string' && templateField !== 'auto') {
+    template = findTemplate(templateField, templates);
+    if (!template) return jsonError(400, `Unknown runsheet template "${templateField}".`);
+  }
+
+  // High-accuracy mode reads every AI-extracted page twice
+  const consensus = formData.get('consensus') === 'true';
+
+  let backend: ExtractionBackend;
+  let distanceProvider: DistanceProvider | null;
+  try {
+    backend = createExtractionBackend(await loadBackendConfigFromEnv());
+    distanceProvider = createDistanceProvider(await loadMileageConfigFromEnv());
+    if (extractionCache === undefined) extractionCache = loadExtractionCacheFromEnv();
+  } catch (err) {
+    console.error(err);
+    return jsonError(500, 'The converter is not configured correctly.');
+  }
+
+  const pdfBytes = new Uint8Array(await file.arrayBuffer());
+  const encoder = new TextEncoder();
+
+  // Set when the client stops reading, e.g. after cancelling; nothing more can be sent then
+  let isStreamCancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ConvertStreamEvent) => {
+        if (isStreamCancelled) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      try {
+        const result = await convertPdfToCsv(
+          pdfBytes,
+          file.type,
+          progress => send({ type: 'progress', progress }),
+          backend,
+          {
+            template,
+            templates,
+            abbreviations,
+            distanceProvider,
+            cache: extractionCache,
+            sourceFile: file instanceof File ? file.name : undefined,
+            consensus,
+            // A cancelled upload stops the model calls; the browser keeps the segments it received
+            signal: request.signal,
+            onSegment: segment => send({ type: 'segment', segment }),
+          }
+        );
+        send({ type: 'result', result });
+      } catch (err) {
+        console.error(err);
+        send({ type: 'error', message: err instanceof Error ? err.message : 'An unknown error occurred during conversion.' });
+      } finally {
+        if (!isStreamCancelled) controller.close();
+      }
+    },
+    cancel() {
+      isStreamCancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Registers the TypeScript loader so the CLI can share the pipeline source with the app.
+import { register } from 'tsx/esm/api';
+
+register();
+await import('../cli/runsheetConvert.ts');
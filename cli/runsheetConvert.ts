@@ -0,0 +1,316 @@
+import { readFile, stat, writeFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import fg from 'fast-glob';
+import { convertPdfToCsv } from '../services/geminiService';
+import { createExtractionBackend } from '../services/extractionBackend';
+import { loadBackendConfigFromEnv, loadExtractionCacheFromEnv, loadMileageConfigFromEnv } from '../services/backendConfig';
+import { createDistanceProvider } from '../services/mileageService';
+import { ADVISORY_RULES } from '../services/validationService';
+import { isLowConfidence } from '../services/consensusService';
+import { diffRunsheets, runsheetDiffCsv } from '../services/runsheetDiffService';
+import { summarizeDays } from '../services/runReportService';
+import { buildManifestPdf } from '../services/manifestPdfService';
+import { csvToTripRows } from '../services/tripRows';
+import { parseAbbreviationJson } from '../services/abbreviationService';
+import { findTemplate, parseRunsheetTemplatesJson, templateAbbreviations, templateForResult } from '../services/templateService';
+import { exportTripsCsv, parseExportProfilesJson } from '../services/exportProfileService';
+import { imagesToPdf } from '../services/imageDocumentService';
+import { DEFAULT_EXPORT_PROFILES } from '../data/exportProfiles';
+import { DEFAULT_TEMPLATES } from '../data/runsheetTemplates';
+import { ExportProfile, RunsheetTemplate } from '../types';
+
+const EXIT_OK = 0;
+const EXIT_INTEGRITY_FAILURE = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: runsheet-convert <pdf|image|directory|glob>... [options]
+
+Converts runsheet PDFs, and JPG/PNG photos or scans, to CSV. Each CSV gets a
+<name>.validation.json report beside it.
+
+Options:
+  -o, --output <path>       Output CSV file (single input) or directory. Defaults to
+                            the directory of each input PDF.
+  -b, --backend <name>      gemini, openai-compatible or fake. Defaults to
+                            EXTRACTION_BACKEND or gemini.
+  -m, --model <name>        Model name for the chosen backend.
+  -c, --chunk-size <pages>  Pages sent to the model per request. Defaults to 20.
+  -a, --abbreviations <file>
+                            JSON dictionary of extra or overridden abbreviations,
+                            applied on top of the runsheet template's codes.
+  -t, --template <id>       Runsheet template: auto (the default) detects the layout
+                            from page 1's headings; otherwise a built-in id
+                            (${DEFAULT_TEMPLATES.map(t => t.id).join(', ')}) or one from --templates.
+      --templates <file>    JSON file of runsheet templates exported from the web
+                            app, added to the built-in ones.
+  -p, --profile <id|file>   Export profile: a built-in id (${DEFAULT_EXPORT_PROFILES.map(p => p.id).join(', ')})
+                            or a JSON file exported from the web app. A file with
+                            several profiles uses the first. Defaults to standard.
+      --cache-dir <dir>     Keep model responses per chunk in this directory so
+                            re-running a corrected PDF only re-sends changed pages.
+                            Defaults to EXTRACTION_CACHE_DIR; otherwise responses
+                            are only reused within one run.
+      --combine-images      Treat all image inputs as the pages of one runsheet, in
+                            file name order, named after the first image.
+      --consensus           Have the model read every page twice and score each
+                            trip by how far the readings agree. Disputed fields
+                            are listed in the report; doubles the model requests.
+      --compare <csv>       An earlier conversion of this runsheet, in the standard
+                            CSV layout. Writes <name>.changes.csv listing the trips
+                            added, removed or changed since, matched on Run Num and
+                            Customer ID. Takes a single runsheet.
+      --manifest            Also write <name>.manifest.pdf: a printable manifest per
+                            run with its stops in pickup-time order.
+  -h, --help                Show this help.
+
+Missing mileage is computed from the settings in MILEAGE_PROVIDER,
+MILEAGE_GEOCODE_FILE, MILEAGE_ROAD_FACTOR and OSRM_BASE_URL; computed values are
+reported as mileage-computed and don't fail the run.
+
+Press Ctrl+C once to stop: the file being converted is written with the pages that
+finished (the rest are listed as failed pages) and later files are skipped. Press it
+again to quit at once.
+
+Exit codes: 0 all files converted cleanly, 1 a file broke an integrity rule or had
+pages that could not be converted, 2 usage or conversion error.`;
+
+const IMAGE_EXTENSIONS: Record<string, string> = { '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png' };
+
+const isImagePath = (inputPath: string) => path.extname(inputPath).toLowerCase() in IMAGE_EXTENSIONS;
+
+/**
+ * Expands the command-line inputs into PDF and image paths: files are taken as-is,
+ * directories contribute the PDFs and images directly inside them, anything else is
+ * a glob.
+ */
+const resolveInputs = async (inputs: string[]): Promise<string[]> => {
+  const resolved: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (info?.isFile()) {
+      resolved.push(input);
+    } else if (info?.isDirectory()) {
+      resolved.push(...(await fg('*.{pdf,jpg,jpeg,png}', { cwd: input, absolute: true, caseSensitiveMatch: false })).sort());
+    } else {
+      resolved.push(...(await fg(input, { absolute: true, caseSensitiveMatch: false })).sort());
+    }
+  }
+  return [...new Set(resolved)];
+};
+
+const resolveOutputPath = (inputPath: string, output: string | undefined, inputCount: number): string => {
+  const fileName = `${path.basename(inputPath, path.extname(inputPath))}.csv`;
+  if (!output) {
+    return path.join(path.dirname(inputPath), fileName);
+  }
+  if (inputCount === 1 && output.toLowerCase().endsWith('.csv')) {
+    return output;
+  }
+  return path.join(output, fileName);
+};
+
+const loadExportProfile = async (value: string | undefined): Promise<ExportProfile> => {
+  if (!value) return DEFAULT_EXPORT_PROFILES[0];
+  const builtIn = DEFAULT_EXPORT_PROFILES.find(profile => profile.id === value);
+  if (builtIn) return builtIn;
+  const [profile] = parseExportProfilesJson(await readFile(value, 'utf8'));
+  return profile;
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      backend: { type: 'string', short: 'b' },
+      model: { type: 'string', short: 'm' },
+      'chunk-size': { type: 'string', short: 'c' },
+      abbreviations: { type: 'string', short: 'a' },
+      template: { type: 'string', short: 't' },
+      templates: { type: 'string' },
+      profile: { type: 'string', short: 'p' },
+      'cache-dir': { type: 'string' },
+      'combine-images': { type: 'boolean' },
+      consensus: { type: 'boolean' },
+      compare: { type: 'string' },
+      manifest: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return values.help ? EXIT_OK : EXIT_ERROR;
+  }
+
+  const chunkSize = values['chunk-size'] ? Number(values['chunk-size']) : undefined;
+  if (chunkSize !== undefined && (!Number.isInteger(chunkSize) || chunkSize < 1)) {
+    console.error('--chunk-size must be a positive whole number.');
+    return EXIT_ERROR;
+  }
+
+  const env = { ...process.env };
+  if (values.backend) env.EXTRACTION_BACKEND = values.backend;
+  if (values.model) {
+    if ((env.EXTRACTION_BACKEND || 'gemini') === 'gemini') env.GEMINI_MODEL = values.model;
+    else env.OPENAI_MODEL = values.model;
+  }
+  const backend = createExtractionBackend(await loadBackendConfigFromEnv(env));
+  const distanceProvider = createDistanceProvider(await loadMileageConfigFromEnv(env));
+  if (values['cache-dir']) env.EXTRACTION_CACHE_DIR = values['cache-dir'];
+  const cache = loadExtractionCacheFromEnv(env);
+
+  const abbreviations = values.abbreviations
+    ? parseAbbreviationJson(await readFile(values.abbreviations, 'utf8'))
+    : undefined;
+
+  const templates = values.templates
+    ? [...DEFAULT_TEMPLATES, ...parseRunsheetTemplatesJson(await readFile(values.templates, 'utf8'))]
+    : DEFAULT_TEMPLATES;
+  let template: RunsheetTemplate | undefined;
+  if (values.template && values.template !== 'auto') {
+    template = findTemplate(values.template, templates);
+    if (!template) {
+      console.error(`Unknown runsheet template "${values.template}". Use auto, ${templates.map(t => t.id).join(', ')}.`);
+      return EXIT_ERROR;
+    }
+  }
+
+  const exportProfile = await loadExportProfile(values.profile);
+
+  const resolved = await resolveInputs(positionals);
+  if (resolved.length === 0) {
+    console.error('No PDF or image files matched the given inputs.');
+    return EXIT_ERROR;
+  }
+
+  // Each runsheet is one PDF, one image, or every image when they are combined
+  const images = resolved
+    .filter(isImagePath)
+    .sort((a, b) => path.basename(a).localeCompare(path.basename(b), undefined, { numeric: true }));
+  const runsheets: string[][] = values['combine-images'] && images.length > 0
+    ? [...resolved.filter(input => !isImagePath(input)).map(input => [input]), images]
+    : resolved.map(input => [input]);
+
+  if (values.compare && runsheets.length > 1) {
+    console.error('--compare takes a single runsheet.');
+    return EXIT_ERROR;
+  }
+  const previousTrips = values.compare ? csvToTripRows(await readFile(values.compare, 'utf8')) : null;
+
+  // Inputs with the same name, e.g. a/monday.pdf and b/monday.pdf with -o, would write over each other
+  const csvPaths = runsheets.map(([inputPath]) => resolveOutputPath(inputPath, values.output, runsheets.length));
+  const collisions = runsheets.flatMap(([inputPath], index) => {
+    const first = csvPaths.findIndex(csvPath => path.resolve(csvPath) === path.resolve(csvPaths[index]));
+    return first === index ? [] : [`${runsheets[first][0]} and ${inputPath} would both be written to ${csvPaths[index]}`];
+  });
+  if (collisions.length > 0) {
+    console.error(`${collisions.join('\n')}\nRename one of them or convert them separately.`);
+    return EXIT_ERROR;
+  }
+
+  let exitCode = EXIT_OK;
+  const cancellation = new AbortController();
+  process.once('SIGINT', () => {
+    console.error('Cancelling. Press Ctrl+C again to quit without writing results.');
+    cancellation.abort();
+    process.once('SIGINT', () => process.exit(EXIT_ERROR));
+  });
+
+  for (const [index, [inputPath, ...morePages]] of runsheets.entries()) {
+    if (cancellation.signal.aborted) {
+      console.error(`Skipping ${inputPath} (cancelled)`);
+      if (exitCode === EXIT_OK) exitCode = EXIT_INTEGRITY_FAILURE;
+      continue;
+    }
+    const csvPath = csvPaths[index];
+    const reportPath = csvPath.replace(/\.csv$/i, '.validation.json');
+    console.error(`Converting ${inputPath}${morePages.length ? ` and ${morePages.length} more images` : ''}`);
+
+    try {
+      const pdfBytes = isImagePath(inputPath)
+        ? await imagesToPdf(await Promise.all([inputPath, ...morePages].map(async imagePath => ({
+          bytes: new Uint8Array(await readFile(imagePath)),
+          mimeType: IMAGE_EXTENSIONS[path.extname(imagePath).toLowerCase()],
+        }))))
+        : new Uint8Array(await readFile(inputPath));
+      const result = await convertPdfToCsv(
+        pdfBytes,
+        'application/pdf',
+        progress => console.error(`  ${progress.message}`),
+        backend,
+        {
+          template,
+          templates,
+          abbreviations,
+          chunkSize,
+          distanceProvider,
+          cache,
+          sourceFile: path.basename(inputPath),
+          consensus: values.consensus,
+          signal: cancellation.signal,
+        }
+      );
+
+      const dictionary = templateAbbreviations(templateForResult(result.template, templates), abbreviations);
+      const days = summarizeDays(result.trips, dictionary);
+
+      await mkdir(path.dirname(csvPath), { recursive: true });
+      await writeFile(csvPath, exportTripsCsv(result.trips, exportProfile));
+      await writeFile(reportPath, JSON.stringify({
+        source: inputPath,
+        tripCount: result.trips.length,
+        issues: result.issues,
+        failedPages: result.failedPages,
+        cancelled: result.cancelled ?? false,
+        template: result.template,
+        reconciliation: result.reconciliation,
+        pageSources: result.pageSources,
+        // The run lists are left to the manifest
+        dailySummary: days.map(({ runs, ...totals }) => ({ ...totals, runCount: runs.length })),
+        // Rows to double-check; they don't fail the run
+        ...(values.consensus ? {
+          lowConfidence: result.trips.flatMap((trip, index) => isLowConfidence(trip) ? [{
+            row: index + 1,
+            runNum: trip.runNum,
+            customer: trip.customer,
+            ...trip.confidence,
+          }] : []),
+        } : {}),
+      }, null, 2));
+
+      if (previousTrips) {
+        const diff = diffRunsheets(previousTrips, result.trips);
+        const changesPath = csvPath.replace(/\.csv$/i, '.changes.csv');
+        await writeFile(changesPath, runsheetDiffCsv(diff));
+        console.error(`  Wrote ${changesPath} (${diff.changed.length} changed, ${diff.added.length} added, ${diff.removed.length} removed)`);
+      }
+
+      if (values.manifest) {
+        const manifestPath = csvPath.replace(/\.csv$/i, '.manifest.pdf');
+        const runs = days.flatMap(day => day.runs);
+        await writeFile(manifestPath, await buildManifestPdf(runs, path.basename(inputPath)));
+        console.error(`  Wrote ${manifestPath} (${runs.length} runs)`);
+      }
+
+      const errors = result.issues.filter(issue => !ADVISORY_RULES.includes(issue.rule));
+      const passed = errors.length === 0 && result.failedPages.length === 0;
+      console.error(`  Wrote ${csvPath} (${result.trips.length} trips, ${result.issues.length} issues, ${result.failedPages.length} failed pages)`);
+      if (!passed && exitCode === EXIT_OK) exitCode = EXIT_INTEGRITY_FAILURE;
+    } catch (error) {
+      console.error(`  Failed: ${error instanceof Error ? error.message : String(error)}`);
+      exitCode = EXIT_ERROR;
+    }
+  }
+
+  return exitCode;
+};
+
+main().then(
+  code => { process.exitCode = code; },
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = EXIT_ERROR;
+  }
+);
@@ -0,0 +1,168 @@
+
+import React, { useState } from 'react';
+import { AbbreviationDictionary, DEFAULT_ABBREVIATIONS } from '../data/abbreviations';
+import { mergeAbbreviations, parseAbbreviationJson } from '../services/abbreviationService';
+import { downloadBlob } from '../utils/downloadUtils';
+import { CloseIcon } from './icons/CloseIcon';
+
+type Section = keyof AbbreviationDictionary;
+
+const SECTION_LABELS: Record<Section, string> = {
+  cities: 'City codes',
+  comments: 'Comment codes',
+};
+
+interface AbbreviationSettingsProps {
+  overrides: AbbreviationDictionary;
+  onChange: (overrides: AbbreviationDictionary) => void;
+}
+
+/**
+ * Keeps only the entries that differ from the built-in dictionary, so an imported
+ * file doesn't pin defaults that may be corrected in a later release.
+ */
+const diffFromDefaults = (dictionary: AbbreviationDictionary): AbbreviationDictionary => {
+  const diff = (section: Section) => Object.fromEntries(
+    Object.entries(dictionary[section]).filter(([code, text]) => DEFAULT_ABBREVIATIONS[section][code] !== text)
+  );
+  return { cities: diff('cities'), comments: diff('comments') };
+};
+
+export const AbbreviationSettings: React.FC<AbbreviationSettingsProps> = ({ overrides, onChange }) => {
+  const [section, setSection] = useState<Section>('cities');
+  const [code, setCode] = useState('');
+  const [expansion, setExpansion] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const merged = mergeAbbreviations(overrides);
+  const entries = Object.entries(merged[section]).sort(([a], [b]) => a.localeCompare(b));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedCode = code.trim();
+    if (!trimmedCode || !expansion.trim()) return;
+    onChange({ ...overrides, [section]: { ...overrides[section], [trimmedCode]: expansion.trim() } });
+    setCode('');
+    setExpansion('');
+  };
+
+  const handleReset = (entryCode: string) => {
+    const { [entryCode]: _removed, ...rest } = overrides[section];
+    onChange({ ...overrides, [section]: rest });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(merged, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, 'runsheet-abbreviations.json');
+  };
+
+  const handleImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      onChange(diffFromDefaults(parseAbbreviationJson(await file.text())));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not import the abbreviation file.');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {(Object.keys(SECTION_LABELS) as Section[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setSection(key)}
+            className={`px-3 py-1 rounded-md text-sm ${section === key ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {SECTION_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      <div className="max-h-64 overflow-y-auto border border-gray-700 rounded-lg">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-gray-700/50 text-gray-300 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 font-medium">Code</th>
+              <th className="px-3 py-2 font-medium">Full text</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(([entryCode, text]) => {
+              const isOverridden = entryCode in overrides[section];
+              const isCustom = !(entryCode in DEFAULT_ABBREVIATIONS[section]);
+              return (
+                <tr key={entryCode} className="border-t border-gray-700">
+                  <td className="px-3 py-2 font-mono text-gray-200">{entryCode}</td>
+                  <td className="px-3 py-2 text-gray-300">
+                    {text}
+                    {isOverridden && (
+                      <span className="ml-2 text-xs text-teal-300">{isCustom ? 'custom' : 'overridden'}</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {isOverridden && (
+                      <button
+                        onClick={() => handleReset(entryCode)}
+                        className="inline-flex items-center text-xs text-red-400 hover:text-red-300"
+                        title={isCustom ? 'Remove entry' : 'Restore default'}
+                      >
+                        <CloseIcon className="w-4 h-4 mr-1" />
+                        {isCustom ? 'Remove' : 'Reset'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-2">
+        <input
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          placeholder="Code, e.g. TOROT"
+          className="sm:w-1/3 px-3 py-2 rounded-md bg-gray-900 border border-gray-600 text-gray-100 text-sm font-mono"
+        />
+        <input
+          value={expansion}
+          onChange={e => setExpansion(e.target.value)}
+          placeholder="Full text, e.g. TORONTO"
+          className="flex-1 px-3 py-2 rounded-md bg-gray-900 border border-gray-600 text-gray-100 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={!code.trim() || !expansion.trim()}
+          className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm disabled:opacity-50"
+        >
+          Add / Override
+        </button>
+      </form>
+
+      <div className="flex gap-2 text-sm">
+        <button onClick={handleExport} className="px-3 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600">
+          Export JSON
+        </button>
+        <label className="px-3 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 cursor-pointer">
+          Import JSON
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => handleImport(e.target.files)}
+          />
+        </label>
+      </div>
+      {importError && <p className="text-sm text-red-400">{importError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { ConversionProgress } from '../types';
+
+interface ConversionProgressBarProps {
+  /** Null while the PDF is still uploading. */
+  progress: ConversionProgress | null;
+  onCancel: () => void;
+}
+
+/**
+ * Share of the work done: pages finished while extracting, then full for the
+ * quick steps that follow.
+ */
+const percentDone = (progress: ConversionProgress | null): number => {
+  if (!progress || progress.pageCount === 0) return 0;
+  if (progress.stage === 'loading' || progress.stage === 'text-layer') return 0;
+  if (progress.stage !== 'extracting') return 100;
+  return Math.round((progress.pagesDone / progress.pageCount) * 100);
+};
+
+export const ConversionProgressBar: React.FC<ConversionProgressBarProps> = ({ progress, onCancel }) => {
+  const percent = percentDone(progress);
+  const details = progress ? [
+    progress.chunkIndex !== null && `Chunk ${progress.chunkIndex} of ${progress.chunkCount}`,
+    progress.pageCount > 0 && `${progress.pagesDone}/${progress.pageCount} pages`,
+    progress.retries > 0 && `${progress.retries} ${progress.retries === 1 ? 'retry' : 'retries'}`,
+    progress.cacheHits > 0 && `${progress.cacheHits} cached`,
+  ].filter(Boolean).join(' · ') : '';
+
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="flex items-center gap-2">
+        <div
+          className="flex-1 h-2 rounded-full bg-gray-700 overflow-hidden"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+        >
+          <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+        </div>
+        <button onClick={onCancel} className="text-xs text-yellow-400 hover:text-yellow-300">Cancel</button>
+      </div>
+      <p className="text-xs text-gray-400">
+        {progress?.message ?? 'Uploading...'}
+        {details && <span className="text-gray-500"> ({details})</span>}
+      </p>
+    </div>
+  );
+};
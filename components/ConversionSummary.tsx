@@ -0,0 +1,106 @@
+
+import React from 'react';
+import { ConversionResult } from '../types';
+
+/**
+ * Collapses page numbers into a compact list of ranges, e.g. [1, 2, 3, 5] -> "1-3, 5".
+ */
+const formatPageRanges = (pages: number[]): string => {
+  const ranges: string[] = [];
+  let start = pages[0];
+  for (let i = 1; i <= pages.length; i++) {
+    if (pages[i] !== pages[i - 1] + 1) {
+      const end = pages[i - 1];
+      ranges.push(start === end ? `${start}` : `${start}-${end}`);
+      start = pages[i];
+    }
+  }
+  return ranges.join(', ');
+};
+
+interface ConversionSummaryProps {
+  fileName: string;
+  result: ConversionResult;
+  issueCount: number;
+}
+
+export const ConversionSummary: React.FC<ConversionSummaryProps> = ({ fileName, result, issueCount }) => {
+  const textLayerPages = result.pageSources.filter(p => p.method === 'text-layer').map(p => p.pageNumber);
+  const aiPages = result.pageSources.filter(p => p.method === 'ai').map(p => p.pageNumber);
+  const emptyPages = result.pageSources.filter(p => p.method === 'empty').map(p => p.pageNumber);
+  const rotatedPages = result.pageSources.filter(p => p.rotation).map(p => p.pageNumber);
+  const { failedPages } = result;
+  const { mileageConflicts, duplicatesRemoved } = result.reconciliation;
+
+  return (
+    <>
+      <div className={`mt-6 p-4 border rounded-lg text-center ${result.cancelled
+        ? 'bg-yellow-900/30 text-yellow-200 border-yellow-700'
+        : 'bg-green-900/50 text-green-300 border-green-700'}`}
+      >
+        <p className="font-semibold">{result.cancelled ? 'Conversion Cancelled' : 'Conversion Successful!'}</p>
+        <p className="text-sm break-all">{fileName}</p>
+        <p className="text-sm">
+          {result.cancelled
+            ? 'The pages that finished before cancelling are kept. Missing mileage was not computed; convert again for a complete result.'
+            : issueCount === 0 ? 'Your CSV file is ready for download.' : 'Some rows need attention before the CSV is used.'}
+        </p>
+        {result.template && (
+          <p className="text-xs mt-2 text-green-200/80">
+            Read with the {result.template.name} template{result.template.detected ? ', detected from page 1' : ''}.
+          </p>
+        )}
+        {textLayerPages.length > 0 && (
+          <p className="text-xs mt-2 text-green-200/80">Pages {formatPageRanges(textLayerPages)} read from the PDF text layer.</p>
+        )}
+        {aiPages.length > 0 && (
+          <p className="text-xs mt-1 text-green-200/80">Pages {formatPageRanges(aiPages)} extracted by AI.</p>
+        )}
+        {rotatedPages.length > 0 && (
+          <p className="text-xs mt-1 text-green-200/80">Pages {formatPageRanges(rotatedPages)} were turned upright before extraction.</p>
+        )}
+        {emptyPages.length > 0 && (
+          <p className="text-xs mt-1 text-yellow-200">
+            Pages {formatPageRanges(emptyPages)} had no usable content (blank or unreadable) and were skipped.
+          </p>
+        )}
+      </div>
+
+      {(mileageConflicts.length > 0 || duplicatesRemoved.length > 0) && (
+        <div className="mt-6 p-4 bg-yellow-900/30 text-yellow-200 border border-yellow-700 rounded-lg">
+          <p className="font-semibold text-center mb-2">Shared rides reconciled</p>
+          {duplicatesRemoved.length > 0 && (
+            <p className="text-sm mb-1">
+              Removed {duplicatesRemoved.length} duplicate {duplicatesRemoved.length === 1 ? 'trip' : 'trips'}:{' '}
+              {duplicatesRemoved.map(trip => `${trip.customer || trip.customerId} (run ${trip.runNum})`).join(', ')}.
+            </p>
+          )}
+          <ul className="text-sm space-y-0.5">
+            {mileageConflicts.map(conflict => (
+              <li key={`${conflict.date}|${conflict.runNum}`}>
+                <span className="font-mono">Run {conflict.runNum}</span>: mileage {conflict.values.join(' / ')} set to {conflict.chosen}
+                {conflict.rule === 'majority' ? ' (most common value)' : ' (tie, first value on the runsheet)'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {failedPages.length > 0 && (
+        <div className="mt-6 p-4 bg-red-900/40 text-red-300 border border-red-700 rounded-lg">
+          <p className="font-semibold text-center">
+            Pages {formatPageRanges(failedPages.map(p => p.pageNumber))} could not be converted
+          </p>
+          <p className="text-sm text-center mb-2">The download contains every other page. Check these pages by hand.</p>
+          <ul className="text-sm space-y-0.5">
+            {failedPages.map(page => (
+              <li key={page.pageNumber}>
+                <span className="font-mono">Page {page.pageNumber}</span>: {page.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
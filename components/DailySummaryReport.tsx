@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { AbbreviationDictionary } from '../data/abbreviations';
+import { RunReport, TripRow } from '../types';
+import { summarizeDays } from '../services/runReportService';
+import { buildManifestPdf } from '../services/manifestPdfService';
+import { downloadBlob } from '../utils/downloadUtils';
+
+interface DailySummaryReportProps {
+  /** Name of the converted runsheet, for the downloaded files. */
+  fileName: string;
+  trips: TripRow[];
+  /** The dictionary the trips were expanded with, to recognise support person codes. */
+  dictionary: AbbreviationDictionary;
+}
+
+const formatMileage = (mileage: number | null) => (mileage === null ? '—' : String(mileage));
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2">
+    <p className="text-xs text-gray-400">{label}</p>
+    <p className="text-lg font-semibold text-gray-100">{value}</p>
+  </div>
+);
+
+/**
+ * The supervisor's daily totals for the trips under review, with a table of runs and
+ * a printable PDF manifest for each run or for all of them.
+ */
+export const DailySummaryReport: React.FC<DailySummaryReportProps> = ({ fileName, trips, dictionary }) => {
+  const days = useMemo(() => summarizeDays(trips, dictionary), [trips, dictionary]);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const name = fileName.replace(/\.[^/.]+$/, '') || 'runsheet';
+
+  const handleManifest = async (runs: RunReport[], suffix: string) => {
+    setIsBuilding(true);
+    try {
+      const bytes = await buildManifestPdf(runs, fileName);
+      downloadBlob(new Blob([bytes.slice()], { type: 'application/pdf' }), `${name}-${suffix}.pdf`);
+    } catch (error) {
+      console.error(error);
+      alert('The manifest could not be created.');
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <button
+          onClick={() => handleManifest(days.flatMap(day => day.runs), 'manifests')}
+          disabled={isBuilding || days.length === 0}
+          className="px-3 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50 text-sm"
+        >
+          All manifests (PDF)
+        </button>
+      </div>
+
+      {days.map(day => (
+        <div key={day.date} className="space-y-3">
+          <h4 className="text-sm font-semibold text-gray-300">{day.date || 'No date'}</h4>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2">
+            <Stat label="Runs" value={day.runs.length} />
+            <Stat label="Trips" value={day.tripCount} />
+            <Stat label="Passengers" value={day.passengerCount} />
+            <Stat
+              label="Mileage"
+              value={
+                <>
+                  {day.totalMileage}
+                  {day.runsWithoutMileage > 0 && (
+                    <span className="ml-1 text-xs font-normal text-amber-300">({day.runsWithoutMileage} runs without)</span>
+                  )}
+                </>
+              }
+            />
+            <Stat label="Shared-ride mileage" value={day.sharedRideMileage} />
+            <Stat label="Device / support person" value={`${day.deviceTrips} / ${day.supportPersonTrips}`} />
+          </div>
+
+          <div className="overflow-x-auto border border-gray-700 rounded-lg max-h-96">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-900 text-gray-400 text-left sticky top-0">
+                <tr>
+                  {['Run', 'Trips', 'Passengers', 'Mileage', 'Shared', 'Device', 'Support person', ''].map(header => (
+                    <th key={header} className="px-3 py-2 font-medium whitespace-nowrap">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700 text-gray-200">
+                {day.runs.map(run => (
+                  <tr key={run.runNum}>
+                    <td className="px-3 py-2 font-mono">{run.runNum || '—'}</td>
+                    <td className="px-3 py-2">{run.trips.length}</td>
+                    <td className="px-3 py-2">{run.passengerCount}</td>
+                    <td className="px-3 py-2">{formatMileage(run.mileage)}</td>
+                    <td className="px-3 py-2">{run.shared ? 'Yes' : ''}</td>
+                    <td className="px-3 py-2">{run.deviceTrips || ''}</td>
+                    <td className="px-3 py-2">{run.supportPersonTrips || ''}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => handleManifest([run], `run-${run.runNum || 'unnumbered'}`)}
+                        disabled={isBuilding}
+                        className="text-xs text-blue-300 hover:text-blue-200 disabled:opacity-50"
+                      >
+                        Manifest
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { ExportField, ExportProfile } from '../types';
+import { DEFAULT_EXPORT_PROFILES } from '../data/exportProfiles';
+import { EXPORT_COLUMNS, parseExportProfilesJson } from '../services/exportProfileService';
+import { downloadBlob } from '../utils/downloadUtils';
+
+const DELIMITER_LABELS: Record<ExportProfile['delimiter'], string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+const DATE_FORMATS = ['MM/DD/YYYY', 'M/D/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD', 'YYYYMMDD'];
+const TIME_FORMATS = ['HH:mm', 'H:mm', 'hh:mm A', 'h:mm A', 'HHmm'];
+
+interface ExportProfileSettingsProps {
+  profiles: ExportProfile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onChange: (profiles: ExportProfile[]) => void;
+}
+
+const inputClass = 'px-3 py-2 rounded-md bg-gray-900 border border-gray-600 text-gray-100 text-sm';
+const smallButtonClass = 'px-2 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-40';
+
+/**
+ * Lists and edits export profiles. Built-in profiles are read-only; duplicating one
+ * gives an editable copy. `profiles` holds only the user's own profiles.
+ */
+export const ExportProfileSettings: React.FC<ExportProfileSettingsProps> = ({ profiles, selectedId, onSelect, onChange }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const allProfiles = [...DEFAULT_EXPORT_PROFILES, ...profiles];
+  const profile = allProfiles.find(p => p.id === selectedId) ?? DEFAULT_EXPORT_PROFILES[0];
+  const isBuiltIn = !profiles.some(p => p.id === profile.id);
+
+  const update = (changes: Partial<ExportProfile>) => {
+    onChange(profiles.map(p => (p.id === profile.id ? { ...p, ...changes } : p)));
+  };
+
+  const handleDuplicate = () => {
+    const copy: ExportProfile = { ...profile, id: `custom-${Date.now()}`, name: `${profile.name} (copy)` };
+    onChange([...profiles, copy]);
+    onSelect(copy.id);
+  };
+
+  const handleDelete = () => {
+    onChange(profiles.filter(p => p.id !== profile.id));
+    onSelect(DEFAULT_EXPORT_PROFILES[0].id);
+  };
+
+  const toggleColumn = (field: ExportField) => {
+    const included = profile.columns.some(column => column.field === field);
+    if (included && profile.columns.length === 1) return;
+    update({
+      columns: included
+        ? profile.columns.filter(column => column.field !== field)
+        : [...profile.columns, { field }],
+    });
+  };
+
+  const renameColumn = (field: ExportField, header: string) => {
+    update({ columns: profile.columns.map(column => (column.field === field ? { ...column, header: header || undefined } : column)) });
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const columns = [...profile.columns];
+    [columns[index], columns[index + offset]] = [columns[index + offset], columns[index]];
+    update({ columns });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(profiles, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, 'runsheet-export-profiles.json');
+  };
+
+  const handleImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      const imported = parseExportProfilesJson(await file.text())
+        .filter(p => !DEFAULT_EXPORT_PROFILES.some(builtIn => builtIn.id === p.id));
+      const importedIds = new Set(imported.map(p => p.id));
+      onChange([...profiles.filter(p => !importedIds.has(p.id)), ...imported]);
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not import the export profile file.');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  // Columns left out of the profile are listed below the exported ones
+  const excluded = EXPORT_COLUMNS.filter(column => !profile.columns.some(c => c.field === column.key));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select value={profile.id} onChange={e => onSelect(e.target.value)} className={`flex-1 ${inputClass}`}>
+          {allProfiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button onClick={handleDuplicate} className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm">
+          Duplicate
+        </button>
+        {!isBuiltIn && (
+          <button onClick={handleDelete} className="px-3 py-1 rounded-md bg-gray-700 text-red-400 hover:bg-gray-600 text-sm">
+            Delete
+          </button>
+        )}
+      </div>
+
+      {isBuiltIn && <p className="text-sm text-gray-400">Built-in profiles can't be changed. Duplicate this one to edit a copy.</p>}
+
+      <fieldset disabled={isBuiltIn} className="space-y-4">
+        {!isBuiltIn && (
+          <input
+            value={profile.name}
+            onChange={e => update({ name: e.target.value })}
+            placeholder="Profile name"
+            className={`w-full ${inputClass}`}
+          />
+        )}
+
+        <div className="border border-gray-700 rounded-lg overflow-hidden">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-700/50 text-gray-300">
+              <tr>
+                <th className="px-3 py-2 font-medium">Column</th>
+                <th className="px-3 py-2 font-medium">Header in file</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {profile.columns.map((column, index) => {
+                const standardHeader = EXPORT_COLUMNS.find(c => c.key === column.field)!.header;
+                return (
+                  <tr key={column.field} className="border-t border-gray-700">
+                    <td className="px-3 py-2 text-gray-200">
+                      <label className="inline-flex items-center gap-2">
+                        <input type="checkbox" checked onChange={() => toggleColumn(column.field)} />
+                        {standardHeader}
+                      </label>
+                    </td>
+                    <td className="px-3 py-1">
+                      <input
+                        value={column.header ?? ''}
+                        onChange={e => renameColumn(column.field, e.target.value)}
+                        placeholder={standardHeader}
+                        className={`w-full ${inputClass} py-1`}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <button onClick={() => moveColumn(index, -1)} disabled={index === 0} className={smallButtonClass} title="Move left">↑</button>
+                      <button onClick={() => moveColumn(index, 1)} disabled={index === profile.columns.length - 1} className={`ml-1 ${smallButtonClass}`} title="Move right">↓</button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {excluded.map(column => (
+                <tr key={column.key} className="border-t border-gray-700 text-gray-500">
+                  <td className="px-3 py-2" colSpan={3}>
+                    <label className="inline-flex items-center gap-2">
+                      <input type="checkbox" checked={false} onChange={() => toggleColumn(column.key)} />
+                      {column.header}
+                    </label>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm text-gray-300">
+          <label className="flex flex-col gap-1">
+            Date format
+            <input
+              list="export-date-formats"
+              value={profile.dateFormat ?? ''}
+              onChange={e => update({ dateFormat: e.target.value || undefined })}
+              placeholder="As extracted"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Time format
+            <input
+              list="export-time-formats"
+              value={profile.timeFormat ?? ''}
+              onChange={e => update({ timeFormat: e.target.value || undefined })}
+              placeholder="As extracted"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Delimiter
+            <select
+              value={profile.delimiter}
+              onChange={e => update({ delimiter: e.target.value as ExportProfile['delimiter'] })}
+              className={inputClass}
+            >
+              {(Object.keys(DELIMITER_LABELS) as ExportProfile['delimiter'][]).map(delimiter => (
+                <option key={delimiter} value={delimiter}>{DELIMITER_LABELS[delimiter]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <datalist id="export-date-formats">
+          {DATE_FORMATS.map(format => <option key={format} value={format} />)}
+        </datalist>
+        <datalist id="export-time-formats">
+          {TIME_FORMATS.map(format => <option key={format} value={format} />)}
+        </datalist>
+      </fieldset>
+
+      <div className="flex gap-2 text-sm">
+        <button onClick={handleExport} disabled={profiles.length === 0} className="px-3 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50">
+          Export JSON
+        </button>
+        <label className="px-3 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 cursor-pointer">
+          Import JSON
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => handleImport(e.target.files)}
+          />
+        </label>
+      </div>
+      {importError && <p className="text-sm text-red-400">{importError}</p>}
+    </div>
+  );
+};
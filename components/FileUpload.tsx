@@ -1,38 +1,32 @@
 
 import React, { useState, useCallback } from 'react';
 import { UploadIcon } from './icons/UploadIcon';
-import { PdfIcon } from './icons/PdfIcon';
-import { CloseIcon } from './icons/CloseIcon';
+import { isImageFile } from '../services/imageDocumentService';
 
 interface FileUploadProps {
-  onFileSelect: (file: File | null) => void;
-  disabled: boolean;
+  /** Receives PDFs and JPG/PNG images; `combineImages` asks for the images to form one runsheet. */
+  onFilesSelect: (files: File[], options: { combineImages: boolean }) => void;
+  disabled?: boolean;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
-  const [fileName, setFileName] = useState<string | null>(null);
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, disabled = false }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [combineImages, setCombineImages] = useState(true);
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
   const handleFileChange = (files: FileList | null) => {
     if (files && files.length > 0) {
-      const file = files[0];
-      if (file.type === 'application/pdf') {
-        setFileName(file.name);
-        onFileSelect(file);
-      } else {
-        alert('Please upload a valid PDF file.');
-        handleClearFile();
+      const accepted = Array.from(files).filter(file => file.type === 'application/pdf' || isImageFile(file));
+      if (accepted.length < files.length) {
+        alert('Only PDF, JPG and PNG files can be converted. Other files were skipped.');
       }
-    }
-  };
-  
-  const handleClearFile = () => {
-      setFileName(null);
-      onFileSelect(null);
-      if(fileInputRef.current) {
-          fileInputRef.current.value = "";
+      if (accepted.length > 0) {
+        onFilesSelect(accepted, { combineImages });
       }
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
   };
 
   const onDragEnter = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
@@ -59,7 +53,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }
     if (!disabled) {
         handleFileChange(e.dataTransfer.files);
     }
-  }, [disabled]);
+  }, [disabled, onFilesSelect, combineImages]);
 
   return (
     <div>
@@ -74,42 +68,32 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }
           `}
       >
         <div className="text-center">
-          {!fileName ? (
-            <>
-              <UploadIcon className="mx-auto h-12 w-12 text-gray-400" />
-              <p className="mt-2 text-lg text-gray-300">
-                <span className="font-semibold text-blue-400">Click to upload</span> or drag and drop
-              </p>
-              <p className="text-sm text-gray-500">PDF file only</p>
-            </>
-          ) : (
-            <div className="flex flex-col items-center">
-              <PdfIcon className="h-12 w-12 text-red-400" />
-              <p className="mt-2 text-lg text-gray-200 break-all">{fileName}</p>
-            </div>
-          )}
+          <UploadIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="mt-2 text-lg text-gray-300">
+            <span className="font-semibold text-blue-400">Click to upload</span> or drag and drop
+          </p>
+          <p className="text-sm text-gray-500">PDFs, or JPG/PNG photos and scans · select several to convert a batch</p>
         </div>
         <input
           ref={fileInputRef}
           type="file"
           className="hidden"
-          accept=".pdf"
+          accept=".pdf,.jpg,.jpeg,.png"
+          multiple
           onChange={(e) => handleFileChange(e.target.files)}
           disabled={disabled}
         />
       </label>
-      {fileName && (
-        <div className="text-right mt-2">
-            <button 
-                onClick={handleClearFile} 
-                className="inline-flex items-center text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
-                disabled={disabled}
-            >
-                <CloseIcon className="w-4 h-4 mr-1"/>
-                Clear file
-            </button>
-        </div>
-      )}
+      <label className="mt-2 flex items-center gap-2 text-sm text-gray-400">
+        <input
+          type="checkbox"
+          checked={combineImages}
+          onChange={e => setCombineImages(e.target.checked)}
+          disabled={disabled}
+          className="rounded border-gray-600 bg-gray-900"
+        />
+        Combine images selected together into one runsheet, in file name order
+      </label>
     </div>
   );
 };
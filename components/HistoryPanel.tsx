@@ -0,0 +1,61 @@
+import React from 'react';
+import { HistoryEntry } from '../types';
+import { ADVISORY_RULES } from '../services/validationService';
+import { PdfIcon } from './icons/PdfIcon';
+import { CloseIcon } from './icons/CloseIcon';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  onOpen: (entry: HistoryEntry) => void;
+  onDownload: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+}
+
+const validationStatus = (entry: HistoryEntry): { label: string; className: string } => {
+  const { issues, failedPages } = entry.result;
+  const errorCount = issues.filter(issue => !ADVISORY_RULES.includes(issue.rule)).length;
+  if (failedPages.length > 0) {
+    return { label: `${failedPages.length} pages failed`, className: 'bg-red-900/60 text-red-300' };
+  }
+  if (errorCount > 0) {
+    return { label: `${errorCount} ${errorCount === 1 ? 'issue' : 'issues'}`, className: 'bg-yellow-900/60 text-yellow-300' };
+  }
+  return { label: 'Valid', className: 'bg-green-900/60 text-green-300' };
+};
+
+/**
+ * Past conversions saved in this browser, with actions to review, re-download or
+ * delete them.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, onOpen, onDownload, onDelete }) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-400">Finished conversions will appear here.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-700 border border-gray-700 rounded-lg max-h-96 overflow-y-auto">
+      {entries.map(entry => {
+        const status = validationStatus(entry);
+        return (
+          <li key={entry.id} className="flex items-center gap-3 px-3 py-2">
+            <PdfIcon className="h-6 w-6 flex-shrink-0 text-red-400" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-gray-200 truncate">{entry.fileName}</p>
+              <p className="text-xs text-gray-400">
+                {new Date(entry.convertedAt).toLocaleString()} · {entry.pageCount} pages · {entry.result.trips.length} rows
+              </p>
+            </div>
+            <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${status.className}`}>{status.label}</span>
+            <div className="flex items-center gap-2 text-xs">
+              <button onClick={() => onOpen(entry)} className="text-blue-400 hover:text-blue-300">Review</button>
+              <button onClick={() => onDownload(entry)} className="text-blue-400 hover:text-blue-300">Download</button>
+              <button onClick={() => onDelete(entry.id)} className="text-red-400 hover:text-red-300" title="Delete from history">
+                <CloseIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,86 @@
+
+import React from 'react';
+import { ConversionJob, JobStatus } from '../types';
+import { PdfIcon } from './icons/PdfIcon';
+import { CloseIcon } from './icons/CloseIcon';
+import { ConversionProgressBar } from './ConversionProgressBar';
+
+const STATUS_STYLES: Record<JobStatus, { label: string; className: string }> = {
+  ready: { label: 'Ready', className: 'bg-gray-700 text-gray-300' },
+  queued: { label: 'Queued', className: 'bg-gray-700 text-blue-300' },
+  processing: { label: 'Converting', className: 'bg-blue-900/60 text-blue-200' },
+  done: { label: 'Done', className: 'bg-green-900/60 text-green-300' },
+  failed: { label: 'Failed', className: 'bg-red-900/60 text-red-300' },
+  cancelled: { label: 'Cancelled', className: 'bg-yellow-900/60 text-yellow-300' },
+};
+
+// A cancelled conversion that kept the pages finished before the cancel
+const PARTIAL_STATUS_STYLE = { label: 'Partial', className: 'bg-yellow-900/60 text-yellow-300' };
+
+interface JobQueueProps {
+  jobs: ConversionJob[];
+  selectedJobId: string | null;
+  onSelect: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onUseCached: (id: string) => void;
+}
+
+export const JobQueue: React.FC<JobQueueProps> = ({ jobs, selectedJobId, onSelect, onCancel, onRetry, onRemove, onUseCached }) => {
+  return (
+    <ul className="divide-y divide-gray-700 border border-gray-700 rounded-lg">
+      {jobs.map(job => {
+        const isPartial = job.status === 'done' && !!job.result?.cancelled;
+        const canRetry = job.status === 'failed' || job.status === 'cancelled' || isPartial;
+        const status = isPartial ? PARTIAL_STATUS_STYLE : STATUS_STYLES[job.status];
+        return (
+          <li
+            key={job.id}
+            className={`flex items-center gap-3 px-3 py-2 ${selectedJobId === job.id ? 'bg-blue-900/30' : ''}`}
+          >
+            <PdfIcon className="h-6 w-6 flex-shrink-0 text-red-400" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-gray-200 truncate">{job.file.name}</p>
+              {job.status === 'processing' && (
+                <ConversionProgressBar progress={job.progress} onCancel={() => onCancel(job.id)} />
+              )}
+              {job.status === 'failed' && job.error && <p className="text-xs text-red-400">{job.error}</p>}
+              {job.status === 'ready' && job.cachedEntry && (
+                <p className="text-xs text-teal-300">
+                  Converted before on {new Date(job.cachedEntry.convertedAt).toLocaleString()} ({job.cachedEntry.result.trips.length} trips).{' '}
+                  <button onClick={() => onUseCached(job.id)} className="underline hover:text-teal-200">Use saved result</button>
+                  {' · '}
+                  <button onClick={() => onRetry(job.id)} className="underline hover:text-teal-200">Convert again</button>
+                </p>
+              )}
+              {job.status === 'done' && job.result && (
+                <p className="text-xs text-gray-400">
+                  {job.result.trips.length} trips
+                  {job.result.failedPages.length > 0 && `, ${job.result.failedPages.length} pages failed`}
+                </p>
+              )}
+            </div>
+            <span className={`text-xs px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+            <div className="flex items-center gap-2 text-xs">
+              {job.status === 'done' && (
+                <button onClick={() => onSelect(job.id)} className="text-blue-400 hover:text-blue-300">Review</button>
+              )}
+              {job.status === 'queued' && (
+                <button onClick={() => onCancel(job.id)} className="text-yellow-400 hover:text-yellow-300">Cancel</button>
+              )}
+              {canRetry && (
+                <button onClick={() => onRetry(job.id)} className="text-blue-400 hover:text-blue-300">Retry</button>
+              )}
+              {job.status !== 'processing' && (
+                <button onClick={() => onRemove(job.id)} className="text-red-400 hover:text-red-300" title="Remove file">
+                  <CloseIcon className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,51 @@
+
+import React, { useEffect, useState } from 'react';
+import { TripSource } from '../types';
+
+interface PdfPageViewerProps {
+  file: File;
+  source: TripSource | null;
+}
+
+// Space kept above a trip's lines when scrolling to them, in points
+const REGION_MARGIN = 24;
+
+/**
+ * Shows the source PDF in the browser's built-in viewer, opened at the page the
+ * selected trip came from and, when its lines were found in the text layer,
+ * scrolled to them.
+ */
+export const PdfPageViewer: React.FC<PdfPageViewerProps> = ({ file, source }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  if (!url) return null;
+
+  const page = source?.firstPage ?? 1;
+  const label = !source
+    ? 'Select a row to see its source page'
+    : source.firstPage === source.lastPage
+      ? `Page ${source.firstPage}${source.region ? ', scrolled to the trip' : ''}`
+      : `Pages ${source.firstPage}-${source.lastPage} (extracted together)`;
+  // FitH takes the top edge in PDF space, which counts up from the bottom of the page
+  const view = source?.region ? `&view=FitH,${source.region.y + source.region.height + REGION_MARGIN}` : '';
+  const src = `${url}#page=${page}${view}`;
+
+  return (
+    <div className="flex flex-col h-full">
+      <p className="text-sm text-gray-400 mb-2">{label}</p>
+      <iframe
+        // Remount on page change; most viewers ignore hash changes on an open document
+        key={src}
+        src={src}
+        title="Source PDF"
+        className="w-full flex-1 min-h-[70vh] rounded-lg border border-gray-700 bg-white"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+
+import React, { useState } from 'react';
+import { TripField, TripRow, ValidationIssue } from '../types';
+import { TRIP_COLUMNS, createEmptyTripRow } from '../services/tripRows';
+import { ADVISORY_RULES } from '../services/validationService';
+import { isLowConfidence } from '../services/consensusService';
+import { CloseIcon } from './icons/CloseIcon';
+
+interface ResultsGridProps {
+  trips: TripRow[];
+  issues: ValidationIssue[];
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+  /** Selects the row and brings its source page into view. */
+  onJumpToSource: (index: number) => void;
+  onChange: (trips: TripRow[]) => void;
+}
+
+const pageLabel = (trip: TripRow) => {
+  if (!trip.source) return '';
+  const { firstPage, lastPage } = trip.source;
+  return firstPage === lastPage ? `p. ${firstPage}` : `pp. ${firstPage}-${lastPage}`;
+};
+
+const confidenceNote = (trip: TripRow, field: TripField): string | undefined => {
+  if (!isLowConfidence(trip, field)) return undefined;
+  return trip.confidence!.unmatched
+    ? 'Only one of the two readings found this trip.'
+    : `The second reading gave "${trip.confidence!.disputed[field]}".`;
+};
+
+/**
+ * Editable table of the extracted trips. Cells with validation issues are
+ * highlighted (red for errors, teal for values to double-check) and show the
+ * issue text on hover. Trips read in consensus mode show their confidence, cells
+ * the two readings disagreed on are outlined in amber, and the table can be
+ * narrowed to rows with such cells.
+ */
+export const ResultsGrid: React.FC<ResultsGridProps> = ({ trips, issues, selectedIndex, onSelect, onJumpToSource, onChange }) => {
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+  const hasConfidence = trips.some(trip => trip.confidence);
+  const lowConfidenceCount = trips.filter(trip => isLowConfidence(trip)).length;
+  const visibleRows = trips
+    .map((trip, rowIndex) => ({ trip, rowIndex }))
+    .filter(({ trip }) => !lowConfidenceOnly || isLowConfidence(trip));
+
+  const issuesByCell = new Map<string, string[]>();
+  const cellsWithErrors = new Set<string>();
+  issues.forEach(issue => {
+    const key = `${issue.rowIndex}:${issue.field}`;
+    issuesByCell.set(key, [...(issuesByCell.get(key) ?? []), issue.message]);
+    if (!ADVISORY_RULES.includes(issue.rule)) cellsWithErrors.add(key);
+  });
+
+  const handleCellChange = (rowIndex: number, field: TripField, value: string) => {
+    onChange(trips.map((trip, i) => {
+      if (i !== rowIndex) return trip;
+      // A reviewed field is no longer in dispute
+      const { [field]: _reviewed, ...disputed } = trip.confidence?.disputed ?? {};
+      const edited = trip.confidence ? { ...trip, confidence: { ...trip.confidence, disputed } } : trip;
+      // A typed-in mileage is no longer the extracted or computed value
+      return field === 'mileage' ? { ...edited, mileage: value, mileageSource: 'edited' } : { ...edited, [field]: value };
+    }));
+  };
+
+  const handleDeleteRow = (rowIndex: number) => {
+    onChange(trips.filter((_, i) => i !== rowIndex));
+  };
+
+  const handleAddRow = () => {
+    // New rows go below the selected row and inherit its date, run and source page
+    const insertAt = selectedIndex === null ? trips.length : selectedIndex + 1;
+    const template = trips[insertAt - 1];
+    const newTrip: TripRow = {
+      ...createEmptyTripRow(),
+      date: template?.date ?? '',
+      runNum: template?.runNum ?? '',
+      source: template?.source,
+    };
+    onChange([...trips.slice(0, insertAt), newTrip, ...trips.slice(insertAt)]);
+    onSelect(insertAt);
+  };
+
+  return (
+    <div>
+      {hasConfidence && (
+        <label className="flex items-center gap-2 mb-3 text-sm text-gray-300">
+          <input type="checkbox" checked={lowConfidenceOnly} onChange={e => setLowConfidenceOnly(e.target.checked)} />
+          Only rows the two readings disagreed on ({lowConfidenceCount})
+        </label>
+      )}
+      <div className="overflow-auto max-h-[70vh] border border-gray-700 rounded-lg">
+        <table className="min-w-full text-xs text-left">
+          <thead className="bg-gray-700 text-gray-300 sticky top-0 z-10">
+            <tr>
+              <th className="px-2 py-2 font-medium">#</th>
+              <th className="px-2 py-2 font-medium">Page</th>
+              {hasConfidence && <th className="px-2 py-2 font-medium" title="Share of fields both readings agreed on">Conf.</th>}
+              {TRIP_COLUMNS.map(column => (
+                <th key={column.key} className="px-2 py-2 font-medium whitespace-nowrap">{column.header}</th>
+              ))}
+              <th className="px-2 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(({ trip, rowIndex }) => (
+              <tr
+                key={rowIndex}
+                onClick={() => onSelect(rowIndex)}
+                className={`border-t border-gray-700 ${selectedIndex === rowIndex ? 'bg-blue-900/40' : 'hover:bg-gray-700/40'}`}
+              >
+                <td className="px-2 py-1 text-gray-500 font-mono">{rowIndex + 1}</td>
+                <td className="px-2 py-1 whitespace-nowrap">
+                  {trip.source && (
+                    <button
+                      onClick={e => { e.stopPropagation(); onJumpToSource(rowIndex); }}
+                      className="text-blue-400 hover:text-blue-300 hover:underline"
+                      title="Show this trip in the PDF"
+                    >
+                      {pageLabel(trip)}
+                    </button>
+                  )}
+                </td>
+                {hasConfidence && (
+                  <td className={`px-2 py-1 font-mono ${isLowConfidence(trip) ? 'text-amber-400' : 'text-gray-500'}`}>
+                    {trip.confidence ? `${Math.round(trip.confidence.score * 100)}%` : ''}
+                  </td>
+                )}
+                {TRIP_COLUMNS.map(column => {
+                  const cellKey = `${rowIndex}:${column.key}`;
+                  const cellIssues = issuesByCell.get(cellKey);
+                  const note = confidenceNote(trip, column.key);
+                  const highlight = cellIssues
+                    ? cellsWithErrors.has(cellKey) ? 'border-red-500 bg-red-900/40' : 'border-teal-500 bg-teal-900/30'
+                    : note ? 'border-amber-500 bg-amber-900/30' : 'border-transparent';
+                  return (
+                    <td key={column.key} className="px-1 py-1">
+                      <input
+                        value={trip[column.key]}
+                        onChange={e => handleCellChange(rowIndex, column.key, e.target.value)}
+                        onFocus={() => onSelect(rowIndex)}
+                        title={[...(cellIssues ?? []), ...(note ? [note] : [])].join('\n') || undefined}
+                        className={`w-full min-w-[6rem] px-1 py-0.5 rounded bg-transparent text-gray-100 border focus:outline-none focus:border-blue-500
+                          ${highlight}`}
+                      />
+                    </td>
+                  );
+                })}
+                <td className="px-2 py-1">
+                  <button
+                    onClick={e => { e.stopPropagation(); handleDeleteRow(rowIndex); }}
+                    className="text-red-400 hover:text-red-300"
+                    title="Delete row"
+                  >
+                    <CloseIcon className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button
+        onClick={handleAddRow}
+        className="mt-3 px-3 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 text-sm"
+      >
+        Add row
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryEntry, TripRow } from '../types';
+import { diffRunsheets, runsheetDiffCsv } from '../services/runsheetDiffService';
+import { TRIP_COLUMNS } from '../services/tripRows';
+import { downloadBlob } from '../utils/downloadUtils';
+
+interface RunsheetDiffPanelProps {
+  /** Name of the revised runsheet, for the downloaded file. */
+  fileName: string;
+  trips: TripRow[];
+  /** Earlier conversions to compare with. */
+  entries: HistoryEntry[];
+}
+
+const KIND_STYLES = {
+  added: 'bg-green-900/60 text-green-300',
+  removed: 'bg-red-900/60 text-red-300',
+  changed: 'bg-yellow-900/60 text-yellow-300',
+};
+
+const header = (field: string) => TRIP_COLUMNS.find(column => column.key === field)!.header;
+
+const tripLabel = (trip: TripRow) => `${trip.runNum} · ${trip.customer}${trip.customerId ? ` (${trip.customerId})` : ''}`;
+
+const tripSummary = (trip: TripRow) => [trip.pickUpTime, trip.pickupAddress, '→', trip.dropoffAddress, trip.dropoffTime]
+  .filter(Boolean)
+  .join(' ');
+
+/**
+ * Compares the trips under review, as a revised runsheet, with an earlier conversion
+ * chosen from the history, and offers the differences as a change CSV.
+ */
+export const RunsheetDiffPanel: React.FC<RunsheetDiffPanelProps> = ({ fileName, trips, entries }) => {
+  const [entryId, setEntryId] = useState('');
+  const entry = entries.find(e => e.id === entryId) ?? null;
+  const diff = useMemo(() => (entry ? diffRunsheets(entry.result.trips, trips) : null), [entry, trips]);
+
+  const handleDownload = () => {
+    if (!diff) return;
+    const blob = new Blob([runsheetDiffCsv(diff)], { type: 'text/csv;charset=utf-8;' });
+    downloadBlob(blob, `${fileName.replace(/\.[^/.]+$/, '') || 'runsheet'}-changes.csv`);
+  };
+
+  const rows = diff ? [
+    ...diff.changed.map(({ revised, changes }) => ({
+      kind: 'changed' as const,
+      trip: revised,
+      detail: changes.map(c => `${header(c.field)}: ${c.previous || '(blank)'} → ${c.revised || '(blank)'}`).join('; '),
+    })),
+    ...diff.added.map(trip => ({ kind: 'added' as const, trip, detail: tripSummary(trip) })),
+    ...diff.removed.map(trip => ({ kind: 'removed' as const, trip, detail: tripSummary(trip) })),
+  ] : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2 text-sm text-gray-300">
+        <label className="flex flex-1 items-center gap-3">
+          Earlier conversion
+          <select
+            value={entryId}
+            onChange={e => setEntryId(e.target.value)}
+            className="flex-1 px-3 py-2 rounded-md bg-gray-900 border border-gray-600 text-gray-100"
+          >
+            <option value="">Choose a saved conversion...</option>
+            {entries.map(e => (
+              <option key={e.id} value={e.id}>
+                {e.fileName} · {new Date(e.convertedAt).toLocaleString()} · {e.result.trips.length} rows
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleDownload}
+          disabled={!diff || rows.length === 0}
+          className="px-3 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50"
+        >
+          Download change CSV
+        </button>
+      </div>
+
+      {diff && (
+        <>
+          <p className="text-sm text-gray-400">
+            {diff.changed.length} changed · {diff.added.length} added · {diff.removed.length} removed · {diff.unchangedCount} unchanged
+          </p>
+          {rows.length > 0 && (
+            <ul className="divide-y divide-gray-700 border border-gray-700 rounded-lg max-h-96 overflow-y-auto text-sm">
+              {rows.map((row, index) => (
+                <li key={index} className="flex items-start gap-3 px-3 py-2">
+                  <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${KIND_STYLES[row.kind]}`}>{row.kind}</span>
+                  <div className="min-w-0">
+                    <p className="text-gray-200">{tripLabel(row.trip)}</p>
+                    <p className="text-xs text-gray-400">{row.detail}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { DateOrder, RunsheetTemplate, TemplateColumn, ValidationRule } from '../types';
+import { DEFAULT_TEMPLATES } from '../data/runsheetTemplates';
+import { parseRunsheetTemplatesJson, runsheetTemplatesToJson, TEMPLATE_COLUMNS } from '../services/templateService';
+import { VALIDATION_RULE_LABELS } from '../services/validationService';
+import { downloadBlob } from '../utils/downloadUtils';
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  MDY: 'Month first (10/2/2025 is Oct 2)',
+  DMY: 'Day first (2/10/2025 is Oct 2)',
+};
+
+interface RunsheetTemplateSettingsProps {
+  templates: RunsheetTemplate[];
+  onChange: (templates: RunsheetTemplate[]) => void;
+}
+
+const inputClass = 'px-3 py-2 rounded-md bg-gray-900 border border-gray-600 text-gray-100 text-sm';
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Lists and edits runsheet templates. Built-in templates are read-only; duplicating
+ * one gives an editable copy. `templates` holds only the user's own templates.
+ * Lists such as headings are typed comma-separated and saved when the field loses focus.
+ */
+export const RunsheetTemplateSettings: React.FC<RunsheetTemplateSettingsProps> = ({ templates, onChange }) => {
+  const [selectedId, setSelectedId] = useState(DEFAULT_TEMPLATES[0].id);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const allTemplates = [...DEFAULT_TEMPLATES, ...templates];
+  const template = allTemplates.find(t => t.id === selectedId) ?? DEFAULT_TEMPLATES[0];
+  const isBuiltIn = !templates.some(t => t.id === template.id);
+
+  const update = (changes: Partial<RunsheetTemplate>) => {
+    onChange(templates.map(t => (t.id === template.id ? { ...t, ...changes } : t)));
+  };
+
+  const handleDuplicate = () => {
+    const copy: RunsheetTemplate = { ...template, id: `custom-${Date.now()}`, name: `${template.name} (copy)` };
+    onChange([...templates, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const handleDelete = () => {
+    onChange(templates.filter(t => t.id !== template.id));
+    setSelectedId(DEFAULT_TEMPLATES[0].id);
+  };
+
+  const setHeadings = (column: TemplateColumn, value: string) => {
+    const { [column]: _previous, ...rest } = template.headings;
+    const headings = splitList(value);
+    update({ headings: headings.length > 0 ? { ...rest, [column]: headings } : rest });
+  };
+
+  const toggleRule = (rule: ValidationRule) => {
+    update({ rules: template.rules.includes(rule) ? template.rules.filter(r => r !== rule) : [...template.rules, rule] });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([runsheetTemplatesToJson(templates, 2)], { type: 'application/json' });
+    downloadBlob(blob, 'runsheet-templates.json');
+  };
+
+  const handleImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      const imported = parseRunsheetTemplatesJson(await file.text())
+        .filter(t => !DEFAULT_TEMPLATES.some(builtIn => builtIn.id === t.id));
+      const importedIds = new Set(imported.map(t => t.id));
+      onChange([...templates.filter(t => !importedIds.has(t.id)), ...imported]);
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not import the runsheet template file.');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const codeCount = Object.keys(template.abbreviations.cities).length + Object.keys(template.abbreviations.comments).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select value={template.id} onChange={e => setSelectedId(e.target.value)} className={`flex-1 ${inputClass}`}>
+          {allTemplates.map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <button onClick={handleDuplicate} className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm">
+          Duplicate
+        </button>
+        {!isBuiltIn && (
+          <button onClick={handleDelete} className="px-3 py-1 rounded-md bg-gray-700 text-red-400 hover:bg-gray-600 text-sm">
+            Delete
+          </button>
+        )}
+      </div>
+
+      {isBuiltIn && <p className="text-sm text-gray-400">Built-in templates can't be changed. Duplicate this one to edit a copy.</p>}
+
+      {/* Keyed by template so the comma-separated fields show the selected template's values */}
+      <fieldset key={template.id} disabled={isBuiltIn} className="space-y-4">
+        {!isBuiltIn && (
+          <input
+            value={template.name}
+            onChange={e => update({ name: e.target.value })}
+            placeholder="Template name"
+            className={`w-full ${inputClass}`}
+          />
+        )}
+
+        <div className="border border-gray-700 rounded-lg overflow-hidden">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-700/50 text-gray-300">
+              <tr>
+                <th className="px-3 py-2 font-medium">Column</th>
+                <th className="px-3 py-2 font-medium">Headings on the runsheet</th>
+              </tr>
+            </thead>
+            <tbody>
+              {TEMPLATE_COLUMNS.map(column => (
+                <tr key={column.key} className="border-t border-gray-700">
+                  <td className="px-3 py-2 text-gray-200 whitespace-nowrap">{column.label}</td>
+                  <td className="px-3 py-1">
+                    <input
+                      defaultValue={(template.headings[column.key] ?? []).join(', ')}
+                      onBlur={e => setHeadings(column.key, e.target.value)}
+                      placeholder="Not on this layout"
+                      className={`w-full ${inputClass} py-1`}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+          Other text on page one that identifies the provider
+          <input
+            defaultValue={(template.markers ?? []).join(', ')}
+            onBlur={e => update({ markers: splitList(e.target.value) })}
+            placeholder="e.g. the provider's name in the title"
+            className={inputClass}
+          />
+        </label>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm text-gray-300">
+          {(['slash', 'dotted'] as const).map(kind => (
+            <label key={kind} className="flex flex-col gap-1">
+              {kind === 'slash' ? 'Dates with / or -' : 'Dates with dots'}
+              <select
+                value={template.dateOrders[kind]}
+                onChange={e => update({ dateOrders: { ...template.dateOrders, [kind]: e.target.value as DateOrder } })}
+                className={inputClass}
+              >
+                {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map(order => (
+                  <option key={order} value={order}>{DATE_ORDER_LABELS[order]}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div className="text-sm text-gray-300">
+          <p className="mb-1">Rules checked after extraction</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+            {(Object.keys(VALIDATION_RULE_LABELS) as ValidationRule[]).map(rule => (
+              <label key={rule} className="inline-flex items-center gap-2">
+                <input type="checkbox" checked={template.rules.includes(rule)} onChange={() => toggleRule(rule)} />
+                {VALIDATION_RULE_LABELS[rule]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+          Notes for the AI model
+          <textarea
+            defaultValue={template.notes ?? ''}
+            onBlur={e => update({ notes: e.target.value.trim() || undefined })}
+            rows={2}
+            placeholder="e.g. Mileage is printed once per run in the last row"
+            className={inputClass}
+          />
+        </label>
+
+        <p className="text-sm text-gray-400">
+          {codeCount} city and comment {codeCount === 1 ? 'code' : 'codes'}. Edit them in the exported JSON; your own abbreviations apply on top.
+        </p>
+      </fieldset>
+
+      <div className="flex gap-2 text-sm">
+        <button onClick={handleExport} disabled={templates.length === 0} className="px-3 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50">
+          Export JSON
+        </button>
+        <label className="px-3 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 cursor-pointer">
+          Import JSON
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => handleImport(e.target.files)}
+          />
+        </label>
+      </div>
+      {importError && <p className="text-sm text-red-400">{importError}</p>}
+    </div>
+  );
+};
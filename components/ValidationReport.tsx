@@ -0,0 +1,40 @@
+
+import React from 'react';
+import { ValidationIssue, ValidationRule } from '../types';
+import { VALIDATION_RULE_LABELS } from '../services/validationService';
+
+interface ValidationReportProps {
+  issues: ValidationIssue[];
+}
+
+export const ValidationReport: React.FC<ValidationReportProps> = ({ issues }) => {
+  const issuesByRule = new Map<ValidationRule, ValidationIssue[]>();
+  issues.forEach(issue => {
+    if (!issuesByRule.has(issue.rule)) issuesByRule.set(issue.rule, []);
+    issuesByRule.get(issue.rule)!.push(issue);
+  });
+  const affectedRows = new Set(issues.map(issue => issue.rowIndex)).size;
+
+  return (
+    <div className="mt-6 p-4 bg-yellow-900/40 text-yellow-200 border border-yellow-700 rounded-lg">
+      <p className="font-semibold text-center">Review Before Downloading</p>
+      <p className="text-sm text-center mb-4">
+        {issues.length} {issues.length === 1 ? 'issue' : 'issues'} found in {affectedRows} {affectedRows === 1 ? 'row' : 'rows'}.
+      </p>
+      <div className="max-h-64 overflow-y-auto space-y-3 text-sm">
+        {[...issuesByRule.entries()].map(([rule, ruleIssues]) => (
+          <div key={rule}>
+            <p className="font-medium">{VALIDATION_RULE_LABELS[rule]} ({ruleIssues.length})</p>
+            <ul className="mt-1 space-y-0.5 text-yellow-100/80">
+              {ruleIssues.map(issue => (
+                <li key={`${issue.rowIndex}-${issue.field}`}>
+                  <span className="font-mono text-yellow-300">Row {issue.rowIndex + 1}</span>: {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+/**
+ * Abbreviation code -> full text. Codes are matched case-sensitively, exactly as
+ * they are printed on the runsheet.
+ */
+export type AbbreviationMap = Record<string, string>;
+
+export interface AbbreviationDictionary {
+  /** Applied to the city portion of the Pickup and Dropoff Address columns. */
+  cities: AbbreviationMap;
+  /** Applied as whole tokens anywhere in the Comment column. */
+  comments: AbbreviationMap;
+}
+
+export const DEFAULT_ABBREVIATIONS: AbbreviationDictionary = {
+  cities: {
+    'NORTH': 'NORTH YORK',
+    'SCARB': 'SCARBOROUGH',
+    'TOROT': 'TORONTO',
+    'MARKH': 'MARKHAM',
+    'EASTY': 'EAST YORK',
+    'ETOBI': 'ETOBICOKE',
+    'VAUGH': 'VAUGHAN',
+    'MISSI': 'MISSISSAUGA',
+    'PICKE': 'PICKERING',
+    'YORK': 'TORONTO',
+  },
+  comments: {
+    'DNLU': 'Do Not Leave Unattended',
+    'MAND.ESC': 'Mandatory Escort / Support Person Required',
+    'COG': 'Cognitive (disability)',
+    'APT BLDG': 'Apartment Building',
+    'MSP': 'Mandatory Support Person',
+    'FRONT ENTR': 'Front Entrance',
+    'FRONT': 'Front Entrance',
+    'CHEMO': 'Chemotherapy (medical condition)',
+    'SUP. PER': 'Support Person',
+    'SEIZ': 'Seizures (medical condition)',
+    'MAIN ENT': 'Main Entrance',
+    'EPILEPSY': 'Epilepsy (medical condition)',
+    'CX': 'Customer',
+    'P/U': 'Pickup',
+    'PU': 'Pickup',
+    'D/O': 'Dropoff',
+    'DO': 'Dropoff',
+    'SPAC': 'Support Person Card',
+    'ADP': 'A Day Program',
+    'CANE': 'CANE',
+    'WALKER': 'WALKER',
+    'KF': 'Folding Cane or Walker',
+    'KNF': 'Non-folding Cane or Walker',
+    'WNF': 'Walker non folding',
+  },
+};
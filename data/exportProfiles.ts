@@ -0,0 +1,56 @@
+import { ExportProfile } from '../types';
+
+/**
+ * Built-in profiles. "Standard" matches the converter's ten-column CSV; the others
+ * are starting points that can be duplicated and adjusted in the settings panel.
+ */
+export const DEFAULT_EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'standard',
+    name: 'Standard (10 columns)',
+    columns: [
+      { field: 'date' },
+      { field: 'runNum' },
+      { field: 'pickUpTime' },
+      { field: 'customer' },
+      { field: 'customerId' },
+      { field: 'pickupAddress' },
+      { field: 'dropoffAddress' },
+      { field: 'dropoffTime' },
+      { field: 'comment' },
+      { field: 'mileage' },
+    ],
+    delimiter: ',',
+  },
+  {
+    id: 'billing',
+    name: 'Billing',
+    columns: [
+      { field: 'date', header: 'Service Date' },
+      { field: 'customerId', header: 'Client ID' },
+      { field: 'customer', header: 'Client Name' },
+      { field: 'runNum', header: 'Run' },
+      { field: 'mileage', header: 'Miles' },
+      { field: 'mileageSource', header: 'Miles Source' },
+    ],
+    dateFormat: 'YYYY-MM-DD',
+    delimiter: ',',
+  },
+  {
+    id: 'dispatch',
+    name: 'Dispatch',
+    columns: [
+      { field: 'date' },
+      { field: 'runNum' },
+      { field: 'pickUpTime', header: 'Pickup' },
+      { field: 'customerId', header: 'Customer ID' },
+      { field: 'customer' },
+      { field: 'pickupAddress' },
+      { field: 'dropoffAddress' },
+      { field: 'dropoffTime', header: 'Dropoff' },
+    ],
+    dateFormat: 'MM/DD/YYYY',
+    timeFormat: 'HH:mm',
+    delimiter: ';',
+  },
+];
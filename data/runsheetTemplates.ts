@@ -0,0 +1,69 @@
+import { RunsheetTemplate, ValidationRule } from '../types';
+import { DEFAULT_ABBREVIATIONS } from './abbreviations';
+
+const ALL_RULES: ValidationRule[] = [
+  'customer-id-required',
+  'dropoff-address-required',
+  'dropoff-time-required',
+  'mileage-numeric',
+  'mileage-consistent-in-run',
+  'city-abbreviation-remaining',
+  'mileage-computed',
+  'date-readable',
+  'time-readable',
+];
+
+const GENERIC_HEADINGS: RunsheetTemplate['headings'] = {
+  runNum: ['Run Num', 'Run No', 'Run #', 'Run', 'Route'],
+  pickupTime: ['Pick Up Time', 'Pickup Time', 'PU Time', 'Pickup'],
+  customer: ['Customer', 'Customer Name', 'Name', 'Client', 'Passenger'],
+  customerId: ['ID', 'Customer ID', 'Customer #', 'Cust ID', 'Client ID'],
+  pickupAddress: ['Pickup Address', 'Pick Up Address', 'From', 'Origin'],
+  dropoffAddress: ['Dropoff Address', 'Drop Off Address', 'To', 'Destination'],
+  dropoffTime: ['Dropoff Time', 'Drop Off Time', 'DO Time', 'Appt Time'],
+  mileage: ['Mileage', 'Distance', 'Miles'],
+};
+
+/**
+ * Built-in templates. The first is used when no template can be detected, e.g. for
+ * scans without a text layer. Templates can be duplicated and adjusted in the
+ * settings panel.
+ */
+export const DEFAULT_TEMPLATES: RunsheetTemplate[] = [
+  {
+    id: 'toronto',
+    name: 'Toronto (Nb. / Dev. / Drop_Off_Comments)',
+    headings: {
+      runNum: ['Run Num', 'Run No', 'Run #', 'Run'],
+      pickupTime: ['Pick Up Time', 'Pickup Time', 'PU Time'],
+      customer: ['Customer', 'Customer Name', 'Name'],
+      customerId: ['ID', 'Customer ID', 'Customer #', 'Cust ID'],
+      pickupAddress: ['Pickup Address', 'Pick Up Address', 'From'],
+      dropoffAddress: ['Dropoff Address', 'Drop Off Address', 'To'],
+      dropoffTime: ['Dropoff Time', 'Drop Off Time', 'DO Time'],
+      passengers: ['Nb.'],
+      device: ['Dev.'],
+      dropoffComments: ['Drop_Off_Comments', 'Dropoff Comments'],
+      mileage: ['Mileage', 'Distance', 'Miles'],
+    },
+    abbreviations: DEFAULT_ABBREVIATIONS,
+    dateOrders: { slash: 'MDY', dotted: 'DMY' },
+    rules: ALL_RULES,
+  },
+  {
+    id: 'generic',
+    name: 'Generic (month/day dates)',
+    headings: GENERIC_HEADINGS,
+    abbreviations: { cities: {}, comments: {} },
+    dateOrders: { slash: 'MDY', dotted: 'MDY' },
+    rules: ALL_RULES.filter(rule => rule !== 'city-abbreviation-remaining'),
+  },
+  {
+    id: 'generic-dmy',
+    name: 'Generic (day/month dates)',
+    headings: GENERIC_HEADINGS,
+    abbreviations: { cities: {}, comments: {} },
+    dateOrders: { slash: 'DMY', dotted: 'DMY' },
+    rules: ALL_RULES.filter(rule => rule !== 'city-abbreviation-remaining'),
+  },
+];
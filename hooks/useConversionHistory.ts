@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ConversionResult, HistoryEntry } from '../types';
+import { deleteHistoryEntry, findHistoryEntryByHash, listHistoryEntries, putHistoryEntry } from '../utils/historyStorage';
+
+/**
+ * The saved conversions in IndexedDB, kept in sync with React state. Storage
+ * failures (e.g. private browsing without IndexedDB) are logged and leave the
+ * converter working without history.
+ */
+export const useConversionHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isAvailable, setIsAvailable] = useState<boolean>(true);
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
+
+  useEffect(() => {
+    listHistoryEntries()
+      .then(setEntries)
+      .catch(error => {
+        console.warn('Conversion history is unavailable in this browser.', error);
+        setIsAvailable(false);
+      });
+  }, []);
+
+  const saveEntry = useCallback(async (entry: HistoryEntry) => {
+    try {
+      await putHistoryEntry(entry);
+      setEntries(prev => [entry, ...prev.filter(e => e.id !== entry.id)]);
+    } catch (error) {
+      console.warn('Could not save the conversion to history.', error);
+    }
+  }, []);
+
+  /**
+   * Replaces the saved result of an entry, e.g. after edits in the review grid.
+   * Does nothing if the entry has been deleted meanwhile.
+   */
+  const updateEntryResult = useCallback(async (id: string, result: ConversionResult) => {
+    const entry = entriesRef.current.find(e => e.id === id);
+    if (!entry) return;
+    const updated = { ...entry, result };
+    try {
+      await putHistoryEntry(updated);
+      setEntries(prev => prev.map(e => (e.id === id ? updated : e)));
+    } catch (error) {
+      console.warn('Could not update the saved conversion.', error);
+    }
+  }, []);
+
+  const deleteEntry = useCallback(async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setEntries(prev => prev.filter(e => e.id !== id));
+    } catch (error) {
+      console.warn('Could not delete the saved conversion.', error);
+    }
+  }, []);
+
+  const findByHash = useCallback(async (pdfHash: string): Promise<HistoryEntry | null> => {
+    try {
+      return await findHistoryEntryByHash(pdfHash);
+    } catch {
+      return null;
+    }
+  }, []);
+
+  return { entries, isAvailable, saveEntry, updateEntryResult, deleteEntry, findByHash };
+};
+
+export type ConversionHistory = ReturnType<typeof useConversionHistory>;
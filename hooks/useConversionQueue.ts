@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DEFAULT_TEMPLATES } from '../data/runsheetTemplates';
+import { ConversionSettings, requestConversion } from '../services/convertApi';
+import { templateForResult, validateWithTemplate } from '../services/templateService';
+import { ConversionJob, HistoryEntry, TripRow } from '../types';
+import { sha256Hex } from '../utils/hashUtils';
+import { ConversionHistory } from './useConversionHistory';
+
+// Each upload already retries busy model calls with exponential backoff on the
+// server, so only a couple of files run at once to avoid stacking those retries.
+const MAX_CONCURRENT_JOBS = 2;
+const INITIAL_PAUSE_MS = 5000;
+const MAX_PAUSE_MS = 60000;
+const HISTORY_SAVE_DELAY_MS = 1000; // Edits are saved once typing pauses
+
+const isBusyError = (message: string) => message.toLowerCase().includes('busy');
+
+let nextJobId = 0;
+
+/**
+ * Runs runsheet conversions as a queue with a concurrency limit. When the server
+ * reports the model is busy, starting new files is paused with a growing delay
+ * before the queue resumes. Finished conversions, and later edits to them, are
+ * saved to the conversion history.
+ */
+export const useConversionQueue = (settings: ConversionSettings, history: ConversionHistory) => {
+  const [jobs, setJobs] = useState<ConversionJob[]>([]);
+  const [pausedUntil, setPausedUntil] = useState<number>(0);
+  const controllers = useRef(new Map<string, AbortController>());
+  const historySaveTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const pauseMs = useRef(0);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  const updateJob = useCallback((id: string, changes: Partial<ConversionJob>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)));
+  }, []);
+
+  const runJob = useCallback(async (job: ConversionJob) => {
+    const controller = new AbortController();
+    controllers.current.set(job.id, controller);
+
+    try {
+      const result = await requestConversion(
+        job.file,
+        progress => updateJob(job.id, { progress }),
+        settingsRef.current,
+        controller.signal
+      );
+      pauseMs.current = 0;
+
+      // A cancelled run keeps its finished pages for review but isn't saved as the PDF's result
+      if (result.cancelled) {
+        updateJob(job.id, { status: 'done', result, progress: null, cachedEntry: null });
+        return;
+      }
+
+      const entry: HistoryEntry = {
+        id: crypto.randomUUID(),
+        pdfHash: job.pdfHash ?? await sha256Hex(await job.file.arrayBuffer()),
+        fileName: job.file.name,
+        convertedAt: new Date().toISOString(),
+        pageCount: result.pageSources.length,
+        result,
+        pdf: job.file,
+      };
+      await historyRef.current.saveEntry(entry);
+      updateJob(job.id, { status: 'done', result, progress: null, historyId: entry.id, cachedEntry: null });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        updateJob(job.id, { status: 'cancelled', progress: null });
+        return;
+      }
+      console.error(err);
+      const message = err instanceof Error ? err.message : 'An unknown error occurred during conversion.';
+      updateJob(job.id, { status: 'failed', error: message, progress: null });
+      if (isBusyError(message)) {
+        pauseMs.current = Math.min(pauseMs.current ? pauseMs.current * 2 : INITIAL_PAUSE_MS, MAX_PAUSE_MS);
+        setPausedUntil(Date.now() + pauseMs.current);
+      }
+    } finally {
+      controllers.current.delete(job.id);
+    }
+  }, [updateJob]);
+
+  useEffect(() => {
+    const remainingPause = pausedUntil - Date.now();
+    if (remainingPause > 0) {
+      const timer = setTimeout(() => setPausedUntil(0), remainingPause);
+      return () => clearTimeout(timer);
+    }
+
+    const activeCount = jobs.filter(job => job.status === 'processing').length;
+    const nextJobs = jobs.filter(job => job.status === 'queued').slice(0, MAX_CONCURRENT_JOBS - activeCount);
+    nextJobs.forEach(job => {
+      updateJob(job.id, { status: 'processing', progress: null, error: null });
+      runJob(job);
+    });
+  }, [jobs, pausedUntil, updateJob, runJob]);
+
+  const addFiles = useCallback((files: File[]) => {
+    const newJobs: ConversionJob[] = files.map(file => ({
+      id: `job-${nextJobId++}`,
+      file,
+      status: 'ready',
+      progress: null,
+      result: null,
+      error: null,
+    }));
+    setJobs(prev => [...prev, ...newJobs]);
+
+    // Look each PDF up in the history so an earlier result can be offered instead
+    newJobs.forEach(async job => {
+      const pdfHash = await sha256Hex(await job.file.arrayBuffer());
+      const cachedEntry = await historyRef.current.findByHash(pdfHash);
+      updateJob(job.id, { pdfHash, cachedEntry });
+    });
+  }, [updateJob]);
+
+  /**
+   * Takes the saved result offered for a ready file instead of converting it again.
+   */
+  const acceptCachedResult = useCallback((id: string) => {
+    setJobs(prev => prev.map(job => {
+      if (job.id !== id || job.status !== 'ready' || !job.cachedEntry) return job;
+      return { ...job, status: 'done', result: job.cachedEntry.result, historyId: job.cachedEntry.id, cachedEntry: null };
+    }));
+  }, []);
+
+  /**
+   * Re-opens a saved conversion as a finished job for review. Returns the job id,
+   * reusing the existing job if the entry is already open.
+   */
+  const openHistoryEntry = useCallback((entry: HistoryEntry): string => {
+    const existing = jobs.find(job => job.historyId === entry.id);
+    if (existing) return existing.id;
+
+    const job: ConversionJob = {
+      id: `job-${nextJobId++}`,
+      file: new File([entry.pdf], entry.fileName, { type: 'application/pdf' }),
+      status: 'done',
+      progress: null,
+      result: entry.result,
+      error: null,
+      pdfHash: entry.pdfHash,
+      historyId: entry.id,
+    };
+    setJobs(prev => [...prev, job]);
+    return job.id;
+  }, [jobs]);
+
+  // Files with a saved result on offer wait for the user to pick it or convert again
+  const startAll = useCallback(() => {
+    setJobs(prev => prev.map(job => (job.status === 'ready' && !job.cachedEntry ? { ...job, status: 'queued' } : job)));
+  }, []);
+
+  const cancelJob = useCallback((id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      setJobs(prev => prev.map(job => (job.id === id && job.status === 'queued' ? { ...job, status: 'cancelled' } : job)));
+    }
+  }, []);
+
+  const retryJob = useCallback((id: string) => {
+    updateJob(id, { status: 'queued', error: null, result: null });
+  }, [updateJob]);
+
+  const removeJob = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    setJobs(prev => prev.filter(job => job.id !== id));
+  }, []);
+
+  const updateJobTrips = useCallback((id: string, trips: TripRow[]) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job?.result) return;
+    const { abbreviations, customTemplates } = settingsRef.current;
+    const template = templateForResult(job.result.template, [...DEFAULT_TEMPLATES, ...customTemplates]);
+    const result = { ...job.result, trips, issues: validateWithTemplate(trips, template, abbreviations) };
+    updateJob(id, { result });
+
+    const { historyId } = job;
+    if (historyId) {
+      clearTimeout(historySaveTimers.current.get(historyId));
+      historySaveTimers.current.set(historyId, setTimeout(() => {
+        historySaveTimers.current.delete(historyId);
+        historyRef.current.updateEntryResult(historyId, result);
+      }, HISTORY_SAVE_DELAY_MS));
+    }
+  }, [jobs, updateJob]);
+
+  return {
+    jobs,
+    isPaused: pausedUntil > Date.now(),
+    addFiles,
+    startAll,
+    cancelJob,
+    retryJob,
+    removeJob,
+    updateJobTrips,
+    acceptCachedResult,
+    openHistoryEntry,
+  };
+};
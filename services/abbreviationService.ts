@@ -0,0 +1,105 @@
+import { AbbreviationDictionary, AbbreviationMap, DEFAULT_ABBREVIATIONS } from '../data/abbreviations';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Locates a city code at the end of an address. Only the text after the last comma
+ * is considered, or the last word when there is no comma, and it must match a code
+ * exactly, so street names such as "YORK MILLS RD" are never touched. An address
+ * that already ends in a full city name ("... NORTH YORK") has no code to expand.
+ * @returns The address text before the city and the matched code, or null.
+ */
+export const findCityAbbreviation = (address: string, cities: AbbreviationMap): { prefix: string; code: string } | null => {
+  const trimmed = address.trim();
+  const commaIndex = trimmed.lastIndexOf(',');
+  if (commaIndex === -1 && Object.values(cities).some(name => trimmed.endsWith(` ${name}`))) {
+    return null;
+  }
+  const splitIndex = commaIndex !== -1 ? commaIndex + 1 : trimmed.lastIndexOf(' ') + 1;
+  const code = trimmed.slice(splitIndex).trim();
+  if (!code || cities[code] === undefined) {
+    return null;
+  }
+  return { prefix: trimmed.slice(0, splitIndex), code };
+};
+
+/**
+ * Expands the city at the end of an address ("70 LEONARD AVE, TOROT" ->
+ * "70 LEONARD AVE, TORONTO").
+ */
+export const expandCity = (address: string, cities: AbbreviationMap): string => {
+  const match = findCityAbbreviation(address, cities);
+  if (!match) {
+    return address;
+  }
+  const separator = match.prefix.endsWith(',') ? ' ' : '';
+  return `${match.prefix}${separator}${cities[match.code]}`;
+};
+
+/**
+ * Replaces comment codes that appear as whole tokens. A code only matches when it
+ * is not directly preceded or followed by a letter or digit, so "DO" expands but
+ * "DOOR" is left alone. Longer codes win over their prefixes ("FRONT ENTR" before
+ * "FRONT"), and everything is replaced in a single pass so expansions are never
+ * expanded again.
+ */
+export const expandCommentCodes = (comment: string, comments: AbbreviationMap): string => {
+  const codes = Object.keys(comments).filter(Boolean).sort((a, b) => b.length - a.length);
+  if (codes.length === 0) {
+    return comment;
+  }
+  const pattern = new RegExp(`(?<![A-Za-z0-9])(${codes.map(escapeRegExp).join('|')})(?![A-Za-z0-9])`, 'g');
+  return comment.replace(pattern, code => comments[code]);
+};
+
+/**
+ * Whether text appears in a comment as whole tokens, by the same rule codes are
+ * expanded by.
+ */
+export const commentMentions = (comment: string, text: string): boolean => {
+  return new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(text)}(?![A-Za-z0-9])`).test(comment);
+};
+
+/**
+ * Layers user overrides on top of a dictionary, the built-in one unless a runsheet
+ * template brings its own.
+ */
+export const mergeAbbreviations = (
+  overrides: AbbreviationDictionary,
+  base: AbbreviationDictionary = DEFAULT_ABBREVIATIONS
+): AbbreviationDictionary => ({
+  cities: { ...base.cities, ...overrides.cities },
+  comments: { ...base.comments, ...overrides.comments },
+});
+
+const isAbbreviationMap = (value: unknown): value is AbbreviationMap => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.values(value).every(v => typeof v === 'string');
+};
+
+/**
+ * Validates an already parsed dictionary, such as the one inside a runsheet
+ * template. Missing sections are treated as empty.
+ */
+export const toAbbreviationDictionary = (value: unknown): AbbreviationDictionary => {
+  const { cities = {}, comments = {} } = (value ?? {}) as Record<string, unknown>;
+  if (!isAbbreviationMap(cities) || !isAbbreviationMap(comments)) {
+    throw new Error('Abbreviations must be objects mapping each code to its full text.');
+  }
+  return { cities, comments };
+};
+
+/**
+ * Parses and validates a dictionary received as JSON (an imported settings file or
+ * the value posted alongside an upload). Missing sections are treated as empty.
+ */
+export const parseAbbreviationJson = (json: string): AbbreviationDictionary => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The abbreviation file is not valid JSON.');
+  }
+
+  return toAbbreviationDictionary(parsed);
+};
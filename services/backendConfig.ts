@@ -0,0 +1,103 @@
+import { readFile } from 'fs/promises';
+import { BackendConfig } from './extractionBackend';
+import { GeocodeTable, MileageConfig, parseGeocodeTableJson } from './mileageService';
+import { createMemoryCache, ExtractionCache } from './extractionCache';
+import { createFileSystemCache } from './fileSystemCache';
+
+/**
+ * Builds the extraction backend configuration from environment variables so the
+ * model can be switched per deployment without editing source.
+ *
+ * - `EXTRACTION_BACKEND`: `gemini` (default), `openai-compatible` or `fake`
+ * - `GEMINI_API_KEY`, `GEMINI_MODEL`
+ * - `OPENAI_BASE_URL`, `OPENAI_MODEL`, `OPENAI_API_KEY`
+ * - `FAKE_BACKEND_CSV`: comma-separated CSV file paths, replayed one per chunk
+ */
+export const loadBackendConfigFromEnv = async (env: NodeJS.ProcessEnv = process.env): Promise<BackendConfig> => {
+  const kind = env.EXTRACTION_BACKEND || 'gemini';
+
+  switch (kind) {
+    case 'gemini': {
+      if (!env.GEMINI_API_KEY) {
+        throw new Error('GEMINI_API_KEY is not configured on the server.');
+      }
+      return { kind: 'gemini', apiKey: env.GEMINI_API_KEY, model: env.GEMINI_MODEL || undefined };
+    }
+    case 'openai-compatible': {
+      if (!env.OPENAI_BASE_URL || !env.OPENAI_MODEL) {
+        throw new Error('OPENAI_BASE_URL and OPENAI_MODEL must be set for the openai-compatible backend.');
+      }
+      return { kind: 'openai-compatible', baseUrl: env.OPENAI_BASE_URL, model: env.OPENAI_MODEL, apiKey: env.OPENAI_API_KEY };
+    }
+    case 'fake': {
+      const paths = (env.FAKE_BACKEND_CSV || '').split(',').map(p => p.trim()).filter(Boolean);
+      if (paths.length === 0) {
+        throw new Error('FAKE_BACKEND_CSV must list at least one CSV file for the fake backend.');
+      }
+      const responses = await Promise.all(paths.map(p => readFile(p, 'utf8')));
+      return { kind: 'fake', responses };
+    }
+    default:
+      throw new Error(`Unknown EXTRACTION_BACKEND "${kind}".`);
+  }
+};
+
+/**
+ * Builds the mileage computation settings from environment variables.
+ *
+ * - `MILEAGE_PROVIDER`: `lookup` (default), `osrm` or `none`
+ * - `MILEAGE_GEOCODE_FILE`: JSON table of address → `{ lat, lon }` used to locate stops
+ * - `MILEAGE_ROAD_FACTOR`: multiplier on straight-line distance for `lookup`, default 1.3
+ * - `OSRM_BASE_URL`: self-hosted OSRM server for `osrm`
+ */
+export const loadMileageConfigFromEnv = async (env: NodeJS.ProcessEnv = process.env): Promise<MileageConfig> => {
+  const kind = env.MILEAGE_PROVIDER || 'lookup';
+  if (kind === 'none') return { kind: 'none' };
+
+  const table: GeocodeTable = env.MILEAGE_GEOCODE_FILE
+    ? parseGeocodeTableJson(await readFile(env.MILEAGE_GEOCODE_FILE, 'utf8'))
+    : {};
+
+  switch (kind) {
+    case 'lookup': {
+      const roadFactor = env.MILEAGE_ROAD_FACTOR ? Number(env.MILEAGE_ROAD_FACTOR) : undefined;
+      if (roadFactor !== undefined && !(roadFactor >= 1)) {
+        throw new Error('MILEAGE_ROAD_FACTOR must be a number of at least 1.');
+      }
+      return { kind: 'lookup', table, roadFactor };
+    }
+    case 'osrm': {
+      if (!env.OSRM_BASE_URL) {
+        throw new Error('OSRM_BASE_URL must be set for the osrm mileage provider.');
+      }
+      return { kind: 'osrm', baseUrl: env.OSRM_BASE_URL, table };
+    }
+    default:
+      throw new Error(`Unknown MILEAGE_PROVIDER "${kind}".`);
+  }
+};
+
+/**
+ * Picks the extraction cache from environment variables.
+ *
+ * - `EXTRACTION_CACHE`: `memory` (default), `filesystem` or `none`
+ * - `EXTRACTION_CACHE_DIR`: directory for `filesystem`; setting it alone selects `filesystem`
+ */
+export const loadExtractionCacheFromEnv = (env: NodeJS.ProcessEnv = process.env): ExtractionCache | null => {
+  const kind = env.EXTRACTION_CACHE || (env.EXTRACTION_CACHE_DIR ? 'filesystem' : 'memory');
+
+  switch (kind) {
+    case 'none':
+      return null;
+    case 'memory':
+      return createMemoryCache();
+    case 'filesystem': {
+      if (!env.EXTRACTION_CACHE_DIR) {
+        throw new Error('EXTRACTION_CACHE_DIR must be set for the filesystem extraction cache.');
+      }
+      return createFileSystemCache(env.EXTRACTION_CACHE_DIR);
+    }
+    default:
+      throw new Error(`Unknown EXTRACTION_CACHE "${kind}".`);
+  }
+};
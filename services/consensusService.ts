@@ -0,0 +1,106 @@
+import { applyFillDownLogic } from './reconciliationService';
+import { TRIP_COLUMNS } from './tripRows';
+import { TripConfidence, TripField, TripRow } from '../types';
+
+/**
+ * Sampling temperature of the second pass. The first pass keeps the model's default,
+ * so its responses are the same as, and cached with, a single-pass conversion.
+ */
+export const SECOND_PASS_TEMPERATURE = 0.8;
+
+const normalize = (value: string) => value
+  .trim()
+  .replace(/\s*\/\s*/g, ' / ')
+  .replace(/\s+/g, ' ')
+  .toUpperCase();
+
+/**
+ * Two rows from different passes describe the same trip when they share the run and
+ * either the passenger's name or ID. The other fields are what the passes are
+ * compared on, so they can't decide the match.
+ */
+const isSameTrip = (a: TripRow, b: TripRow) => normalize(a.runNum) === normalize(b.runNum)
+  && (normalize(a.customer) === normalize(b.customer) || (a.customerId !== '' && normalize(a.customerId) === normalize(b.customerId)));
+
+/**
+ * Pairs up the rows of two passes, keeping document order, by the longest common
+ * subsequence of matching trips.
+ * @returns For each step, the row index in either pass, or null when the row is only
+ *   in the other pass.
+ */
+const alignRows = (first: TripRow[], second: TripRow[]): [number | null, number | null][] => {
+  const lengths = Array.from({ length: first.length + 1 }, () => new Array<number>(second.length + 1).fill(0));
+  for (let i = first.length - 1; i >= 0; i--) {
+    for (let j = second.length - 1; j >= 0; j--) {
+      lengths[i][j] = isSameTrip(first[i], second[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number | null, number | null][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < first.length || j < second.length) {
+    if (i < first.length && j < second.length && isSameTrip(first[i], second[j])) {
+      pairs.push([i++, j++]);
+    } else if (j >= second.length || (i < first.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      pairs.push([i++, null]);
+    } else {
+      pairs.push([null, j++]);
+    }
+  }
+  return pairs;
+};
+
+/**
+ * A shared ride's mileage may be printed beside any one of its passengers, so
+ * mileage is compared per run: the first value given in the row's run.
+ */
+const runMileage = (trips: TripRow[], index: number): string => {
+  const runNum = normalize(trips[index].runNum);
+  return trips.find(trip => normalize(trip.runNum) === runNum && trip.mileage.trim())?.mileage ?? '';
+};
+
+const compareRows = (first: TripRow[], i: number, second: TripRow[], j: number): TripConfidence => {
+  const disputed: Partial<Record<TripField, string>> = {};
+  for (const { key } of TRIP_COLUMNS) {
+    const [ours, theirs] = key === 'mileage'
+      ? [runMileage(first, i), runMileage(second, j)]
+      : [first[i][key], second[j][key]];
+    if (normalize(ours) !== normalize(theirs)) disputed[key] = second[j][key];
+  }
+  const agreed = TRIP_COLUMNS.length - Object.keys(disputed).length;
+  return { score: Math.round((agreed / TRIP_COLUMNS.length) * 100) / 100, disputed };
+};
+
+/**
+ * Merges two extractions of the same pages into one list of trips, each with a
+ * confidence: the share of its fields both passes read the same. The first pass's
+ * values are kept, and a disputed field records what the second pass read instead.
+ * A trip only one pass returned is kept with a score of 0. Rows are compared after
+ * filling down shared rides, so a pickup one pass repeated and the other left blank
+ * isn't a disagreement.
+ */
+export const mergePasses = (first: TripRow[], second: TripRow[]): TripRow[] => {
+  const filledFirst = applyFillDownLogic(first);
+  const filledSecond = applyFillDownLogic(second);
+
+  return alignRows(first, second).map(([i, j]): TripRow => {
+    if (i === null) return { ...second[j!], confidence: { score: 0, disputed: {}, unmatched: true } };
+    if (j === null) return { ...first[i], confidence: { score: 0, disputed: {}, unmatched: true } };
+    return { ...first[i], confidence: compareRows(filledFirst, i, filledSecond, j) };
+  });
+};
+
+/**
+ * Whether a trip has cells a reviewer should double-check: fields the two passes
+ * disagreed on, or every field of a trip only one pass returned. Trips read from the
+ * text layer, or without consensus mode, have no confidence and never count.
+ */
+export const isLowConfidence = (trip: TripRow, field?: TripField): boolean => {
+  const { confidence } = trip;
+  if (!confidence) return false;
+  if (confidence.unmatched) return true;
+  return field ? field in confidence.disputed : Object.keys(confidence.disputed).length > 0;
+};
@@ -0,0 +1,121 @@
+import { AppliedTemplate, ConversionProgress, ConversionResult, ConvertedSegment, ConvertStreamEvent, RunsheetTemplate } from '../types';
+import { AbbreviationDictionary } from '../data/abbreviations';
+import { DEFAULT_TEMPLATES } from '../data/runsheetTemplates';
+import { finishConversion } from './postProcessingService';
+import { runsheetTemplatesToJson, templateForResult } from './templateService';
+
+const CONVERT_ENDPOINT = '/api/convert';
+export const MAX_UPLOAD_BYTES = 4 * 1024 * 1024; // Stay under the platform's request body limit
+
+export const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export interface ConversionSettings {
+  /** The user's own abbreviations, layered on the template's dictionary by the server. */
+  abbreviations: AbbreviationDictionary;
+  /** A template id, or 'auto' to detect the layout from page one. */
+  templateId: string;
+  /** The user's own templates, sent along so they can be chosen or detected. */
+  customTemplates: RunsheetTemplate[];
+  /** Reads every AI-extracted page twice and scores each trip by how far the passes agree. */
+  consensus: boolean;
+}
+
+/**
+ * Uploads a runsheet PDF to the server-side converter and resolves with the extracted
+ * trips and the method used for each page.
+ * The endpoint streams newline-delimited JSON events; progress events are forwarded
+ * to the caller as they arrive. When `signal` aborts after some pages finished, the
+ * promise resolves with a `cancelled` result built from those pages instead of
+ * rejecting. Mileage is not computed for such a result, since that runs on the server;
+ * dates are read against the printed header date the server sent with its progress.
+ */
+export const requestConversion = async (
+  file: File,
+  onProgress: (progress: ConversionProgress) => void,
+  settings: ConversionSettings,
+  signal?: AbortSignal
+): Promise<ConversionResult> => {
+  // Checked here too, so an oversized file fails before it is uploaded
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new Error(`${file.name} is ${formatMegabytes(file.size)}; files over ${formatMegabytes(MAX_UPLOAD_BYTES)} can't be uploaded for conversion.`);
+  }
+
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('abbreviations', JSON.stringify(settings.abbreviations));
+  formData.append('template', settings.templateId);
+  if (settings.customTemplates.length > 0) {
+    formData.append('templates', runsheetTemplatesToJson(settings.customTemplates));
+  }
+  if (settings.consensus) formData.append('consensus', 'true');
+
+  const response = await fetch(CONVERT_ENDPOINT, { method: 'POST', body: formData, signal });
+
+  if (!response.ok || !response.body) {
+    let message = `The conversion service responded with status ${response.status}.`;
+    try {
+      const payload = await response.json();
+      if (payload?.error) message = payload.error;
+    } catch {
+      // Body was not JSON; keep the generic message.
+    }
+    throw new Error(message);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  let result: ConversionResult | null = null;
+  const segments: ConvertedSegment[] = [];
+  let pageCount = 0;
+  let template: AppliedTemplate | undefined;
+  let headerDate: string | undefined;
+
+  const handleLine = (line: string): ConversionResult | null => {
+    if (!line.trim()) return null;
+    const event = JSON.parse(line) as ConvertStreamEvent;
+    switch (event.type) {
+      case 'error':
+        throw new Error(event.message);
+      case 'progress':
+        pageCount = event.progress.pageCount;
+        template = event.progress.template ?? undefined;
+        headerDate = event.progress.headerDate ?? undefined;
+        onProgress(event.progress);
+        return null;
+      case 'segment':
+        segments.push(event.segment);
+        return null;
+      case 'result':
+        return event.result;
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += value;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        result = handleLine(line) ?? result;
+      }
+    }
+    result = handleLine(buffered) ?? result;
+  } catch (error) {
+    if (signal?.aborted && segments.length > 0) {
+      return finishConversion(segments, pageCount, true, {
+        template: templateForResult(template, [...DEFAULT_TEMPLATES, ...settings.customTemplates]),
+        templateDetected: template?.detected,
+        abbreviations: settings.abbreviations,
+        headerDate,
+      });
+    }
+    throw error;
+  }
+
+  if (result === null) {
+    throw new Error('The conversion service closed the connection before returning a result.');
+  }
+  return result;
+};
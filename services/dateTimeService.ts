@@ -0,0 +1,313 @@
+import { formatDate, formatTime, parseTripTime } from './exportProfileService';
+import { DateOrder, RunsheetTemplate, TripRow } from '../types';
+
+/** The format the rest of the pipeline reads dates and times in. */
+export const CANONICAL_DATE_FORMAT = 'MM/DD/YYYY';
+export const CANONICAL_TIME_FORMAT = 'HH:mm';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface ClockTime {
+  hours: number;
+  minutes: number;
+  /** Whether the value said AM or PM, so the hour can't be read the other way. */
+  meridiem: boolean;
+}
+
+/** The runsheet's own date, which years are taken from. */
+export interface DateReference {
+  date: CalendarDate;
+  /**
+   * Printed in the header or given by a clear majority of rows, so a day and month
+   * that only match it the other way round can be swapped back.
+   */
+  trusted: boolean;
+}
+
+/** Month and weekday names as printed on English and French runsheets, without accents. */
+const MONTH_NAMES: string[][] = [
+  ['january', 'janvier'],
+  ['february', 'fevrier'],
+  ['march', 'mars'],
+  ['april', 'avril'],
+  ['may', 'mai'],
+  ['june', 'juin'],
+  ['july', 'juillet'],
+  ['august', 'aout'],
+  ['september', 'septembre'],
+  ['october', 'octobre'],
+  ['november', 'novembre'],
+  ['december', 'decembre'],
+];
+const WEEKDAY_NAMES = [
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi', 'dimanche',
+];
+
+const ISO_DATE_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/;
+const NUMERIC_DATE_PATTERN = /^(\d{1,2})([/.-])(\d{1,2})(?:\2(\d{4}|\d{2}))?$/;
+const DAY_FIRST_PATTERN = /^(\d{1,2})(?:st|nd|rd|th|er)? ([a-z]+)(?: (\d{4}|\d{2}))?$/;
+const MONTH_FIRST_PATTERN = /^([a-z]+) (\d{1,2})(?:st|nd|rd|th|er)?(?: (\d{4}|\d{2}))?$/;
+const CLOCK_PATTERN = /^(\d{1,2})(?:[:.h](\d{1,2})(?::\d{2})?)?(?: ?([ap])\.? ?(?:m\.?)?)?$/;
+const COMPACT_CLOCK_PATTERN = /^(\d{1,2})(\d{2})(?: ?([ap])\.? ?(?:m\.?)?)?$/;
+
+const plainText = (value: string) => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/** Whether a word is a month or weekday name, or an abbreviation of one at least three letters long. */
+const abbreviates = (word: string, name: string) => word.length >= 3 && name.startsWith(word);
+
+const monthNumber = (word: string): number | null => {
+  const matches = MONTH_NAMES.flatMap((names, index) => (names.some(name => abbreviates(word, name)) ? [index + 1] : []));
+  return matches.length === 1 ? matches[0] : null;
+};
+
+/** "Mar" is March rather than mardi, so only words that aren't a month count. */
+const isWeekday = (word: string) => monthNumber(word) === null && WEEKDAY_NAMES.some(name => abbreviates(word, name));
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const dayNumber = ({ year, month, day }: CalendarDate) => Date.UTC(year, month - 1, day) / 86_400_000;
+
+const isValidDate = (date: CalendarDate) =>
+  date.month >= 1 && date.month <= 12 && date.day >= 1 && date.day <= daysInMonth(date.year, date.month);
+
+const sameDate = (a: CalendarDate, b: CalendarDate) => a.year === b.year && a.month === b.month && a.day === b.day;
+
+/**
+ * The year a date was meant to have. A two-digit year takes the century closest to
+ * the runsheet's date (the 2000s without one); a missing year takes whichever of the
+ * runsheet's year and the years either side puts the date closest to it, so a
+ * "Jan 1" on a December 31 runsheet lands in the new year.
+ */
+const resolveYear = (rawYear: string | undefined, month: number, day: number, reference: CalendarDate | null): number | null => {
+  if (rawYear?.length === 4) return Number(rawYear);
+  if (rawYear) {
+    const century = reference ? Math.floor(reference.year / 100) * 100 : 2000;
+    const candidates = [century - 100, century, century + 100].map(start => start + Number(rawYear));
+    return reference
+      ? candidates.reduce((best, year) => (Math.abs(year - reference.year) < Math.abs(best - reference.year) ? year : best))
+      : candidates[1];
+  }
+  if (!reference) return null;
+  const distance = (year: number) => Math.abs(dayNumber({ year, month, day: Math.min(day, daysInMonth(year, month)) }) - dayNumber(reference));
+  return [reference.year - 1, reference.year, reference.year + 1]
+    .reduce((best, year) => (distance(year) < distance(best) ? year : best), reference.year);
+};
+
+/**
+ * Reads a date in any of the styles runsheets and the model produce: "10/2/2025",
+ * "02.10.25", "2025-10-02", "Oct 2, 2025", "jeudi 2 octobre" and so on. Numbers
+ * separated by dots follow the dotted order and the rest the slash order; when that
+ * would give a thirteenth month the other order is the only possible reading.
+ * Two-digit and missing years are taken from the runsheet's date, and a day and
+ * month that only match a trusted one the other way round are swapped back.
+ * @param value - The date as extracted.
+ * @param dateOrders - How numeric dates are to be read.
+ * @param reference - The runsheet's own date, when known.
+ * @returns The date, or null when it can't be read.
+ */
+export const parseRunsheetDate = (
+  value: string,
+  dateOrders: RunsheetTemplate['dateOrders'],
+  reference: DateReference | null = null
+): CalendarDate | null => {
+  const referenceDay = reference?.date ?? null;
+  const text = plainText(value)
+    .replace(/,/g, ' ')
+    .split(' ')
+    .filter(word => word && !isWeekday(word.replace(/\.$/, '')))
+    .join(' ');
+
+  const iso = text.match(ISO_DATE_PATTERN);
+  if (iso) {
+    const date = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+    return isValidDate(date) ? date : null;
+  }
+
+  const numeric = text.match(NUMERIC_DATE_PATTERN);
+  if (numeric) {
+    const [, first, separator, second, rawYear] = numeric;
+    const order: DateOrder = separator === '.' ? dateOrders.dotted : dateOrders.slash;
+    let [month, day] = (order === 'MDY' ? [first, second] : [second, first]).map(Number);
+    if (month > 12 && day <= 12) [month, day] = [day, month];
+    const year = resolveYear(rawYear, month, day, referenceDay);
+    if (year === null) return null;
+    const date = { year, month, day };
+    const swapped = { year, month: day, day: month };
+    if (reference?.trusted && !sameDate(date, reference.date) && isValidDate(swapped) && sameDate(swapped, reference.date)) {
+      return swapped;
+    }
+    return isValidDate(date) ? date : null;
+  }
+
+  // Month names, with dashes, slashes or dots between the parts as in "02-Oct-2025"
+  const named = text.replace(/[-/.]/g, ' ').replace(/\s+/g, ' ').trim();
+  const dayFirst = named.match(DAY_FIRST_PATTERN);
+  const monthFirst = named.match(MONTH_FIRST_PATTERN);
+  const parts = dayFirst
+    ? { day: dayFirst[1], month: dayFirst[2], year: dayFirst[3] }
+    : monthFirst ? { day: monthFirst[2], month: monthFirst[1], year: monthFirst[3] } : null;
+  const month = parts ? monthNumber(parts.month) : null;
+  if (!parts || month === null) return null;
+  const day = Number(parts.day);
+  const year = resolveYear(parts.year, month, day, referenceDay);
+  if (year === null) return null;
+  const date = { year, month, day };
+  return isValidDate(date) ? date : null;
+};
+
+/**
+ * Reads a time in any of the styles runsheets and the model produce: "9:05",
+ * "9:5a", "09.05 p.m.", "9h05", "0905", "9 PM", "noon". A single minute digit is
+ * read as the model having dropped a leading zero, so "9:5" is 9:05.
+ * @returns The time on a 24-hour clock, or null when it can't be read.
+ */
+export const parseRunsheetTime = (value: string): ClockTime | null => {
+  const text = plainText(value);
+  if (text === 'noon' || text === 'midi') return { hours: 12, minutes: 0, meridiem: true };
+  if (text === 'midnight' || text === 'minuit') return { hours: 0, minutes: 0, meridiem: true };
+
+  const match = text.match(CLOCK_PATTERN) ?? text.match(COMPACT_CLOCK_PATTERN);
+  // A bare number is only a time with AM or PM after it
+  if (!match || (match[2] === undefined && !match[3])) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3];
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  } else if (hours === 24 && minutes === 0) {
+    hours = 0;
+  } else if (hours > 23) {
+    return null;
+  }
+  return { hours, minutes, meridiem: Boolean(meridiem) };
+};
+
+const clockMinutes = (time: { hours: number; minutes: number }) => time.hours * 60 + time.minutes;
+
+/** Minutes from `start` forward to `end`, going past midnight if need be. */
+const minutesAfter = (start: number, end: number) => (end - start + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+/**
+ * A dropoff without AM or PM is read whichever way puts it soonest after the pickup,
+ * so "9:05" after an 8:40 PM pickup is 21:05 rather than the next morning.
+ */
+const dropoffAfterPickup = (dropoff: ClockTime, pickup: ClockTime | null): ClockTime => {
+  if (!pickup || dropoff.meridiem || dropoff.hours < 1 || dropoff.hours > 12) return dropoff;
+  const other = { ...dropoff, hours: (dropoff.hours + 12) % 24 };
+  const start = clockMinutes(pickup);
+  return minutesAfter(start, clockMinutes(other)) < minutesAfter(start, clockMinutes(dropoff)) ? other : dropoff;
+};
+
+export interface DateTimeOptions {
+  /** How numeric dates are to be read. */
+  dateOrders: RunsheetTemplate['dateOrders'];
+  /**
+   * The date printed at the top of the runsheet. Defaults to the date most rows
+   * give with a year.
+   */
+  headerDate?: string;
+  /** Output pattern in the export profile syntax, e.g. "YYYY-MM-DD". Defaults to MM/DD/YYYY. */
+  dateFormat?: string;
+  /** Output pattern in the export profile syntax, e.g. "h:mm A". Defaults to HH:mm. */
+  timeFormat?: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * The runsheet's date: the header date when given, otherwise the one most rows give
+ * with a year. Only the header or more than half of those rows make it trusted;
+ * without either, a first row read the wrong way round would otherwise rewrite the rest.
+ */
+const referenceDate = (trips: TripRow[], options: DateTimeOptions): DateReference | null => {
+  const header = options.headerDate ? parseRunsheetDate(options.headerDate, options.dateOrders) : null;
+  if (header) return { date: header, trusted: true };
+
+  const counts = new Map<string, { date: CalendarDate; count: number }>();
+  for (const trip of trips) {
+    // Without a reference, only dates that give their year can be read
+    const date = parseRunsheetDate(trip.date, options.dateOrders);
+    if (!date) continue;
+    const key = `${date.year}-${date.month}-${date.day}`;
+    counts.set(key, { date, count: (counts.get(key)?.count ?? 0) + 1 });
+  }
+  let best: { date: CalendarDate; count: number } | null = null;
+  let total = 0;
+  for (const entry of counts.values()) {
+    total += entry.count;
+    if (!best || entry.count > best.count) best = entry;
+  }
+  return best && { date: best.date, trusted: best.count * 2 > total };
+};
+
+/**
+ * Rewrites every trip's Date, Pick Up Time and Dropoff Time in one format, in code
+ * rather than trusting the model to. Values that can't be read are left exactly as
+ * they were, for validation to flag; blank values stay blank.
+ * @param trips - The extracted trips.
+ * @param options - How to read the values and what to write.
+ * @returns The trips with their dates and times normalized.
+ */
+export const normalizeTripDateTimes = (trips: TripRow[], options: DateTimeOptions): TripRow[] => {
+  const reference = referenceDate(trips, options);
+  const dateFormat = options.dateFormat ?? CANONICAL_DATE_FORMAT;
+  const timeFormat = options.timeFormat ?? CANONICAL_TIME_FORMAT;
+  const writeTime = (time: ClockTime) => formatTime(`${pad(time.hours)}:${pad(time.minutes)}`, timeFormat);
+
+  return trips.map(trip => {
+    const date = trip.date.trim() ? parseRunsheetDate(trip.date, options.dateOrders, reference) : null;
+    const pickup = trip.pickUpTime.trim() ? parseRunsheetTime(trip.pickUpTime) : null;
+    const dropoff = trip.dropoffTime.trim() ? parseRunsheetTime(trip.dropoffTime) : null;
+    return {
+      ...trip,
+      date: date ? formatDate(`${pad(date.month)}/${pad(date.day)}/${date.year}`, dateFormat) : trip.date,
+      pickUpTime: pickup ? writeTime(pickup) : trip.pickUpTime,
+      dropoffTime: dropoff ? writeTime(dropoffAfterPickup(dropoff, pickup)) : trip.dropoffTime,
+    };
+  });
+};
+
+/**
+ * When each trip happens, in minutes after midnight of its Date, for runs that go
+ * past midnight. Within a run, a pickup more than twelve hours before the run's
+ * previous one is taken to be the next day, and a dropoff is always after its
+ * pickup, so a 23:50 pickup with a 00:20 dropoff comes out as 1430 and 1460.
+ * @param trips - Trips with normalized times, in document order.
+ * @returns Each trip's pickup and dropoff, null where the time can't be read.
+ */
+export const tripTimeline = (trips: TripRow[]): { pickup: number | null; dropoff: number | null }[] => {
+  const lastPickups = new Map<string, number>();
+  return trips.map(trip => {
+    const key = `${trip.date}|${trip.runNum}`;
+    const pickupTime = parseTripTime(trip.pickUpTime);
+    const dropoffTime = parseTripTime(trip.dropoffTime);
+
+    let pickup = pickupTime ? clockMinutes(pickupTime) : null;
+    const last = lastPickups.get(key);
+    if (pickup !== null && last !== undefined) {
+      while (last - pickup > MINUTES_PER_DAY / 2) pickup += MINUTES_PER_DAY;
+    }
+    if (pickup !== null) lastPickups.set(key, Math.max(pickup, last ?? pickup));
+
+    let dropoff = dropoffTime ? clockMinutes(dropoffTime) : null;
+    if (dropoff !== null && pickup !== null) {
+      dropoff += Math.floor(pickup / MINUTES_PER_DAY) * MINUTES_PER_DAY;
+      if (dropoff < pickup) dropoff += MINUTES_PER_DAY;
+    }
+    return { pickup, dropoff };
+  });
+};
@@ -0,0 +1,176 @@
+import { ExportField, ExportFormat, ExportProfile, FailedPage, RunsheetExport, TripRow, ValidationIssue } from '../types';
+import {
+  DATE_FIELDS,
+  TIME_FIELDS,
+  defaultHeader,
+  exportCombinedCsv,
+  exportFieldValue,
+  exportFileExtension,
+  exportTripsCsv,
+  parseTripDate,
+  parseTripTime,
+} from './exportProfileService';
+import { createXlsx, toExcelDate, toExcelTime, XlsxCell } from '../utils/xlsxUtils';
+
+const NUMERIC_PATTERN = /^\d+(?:\.\d+)?$/;
+
+const DEFAULT_EXCEL_DATE_FORMAT = 'mm/dd/yyyy';
+const DEFAULT_EXCEL_TIME_FORMAT = 'hh:mm';
+
+/**
+ * One converted runsheet, as handed to the exporters.
+ */
+export interface ExportBatch {
+  fileName: string;
+  trips: TripRow[];
+  issues: ValidationIssue[];
+  failedPages: FailedPage[];
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8;',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Translates a profile date pattern (YYYY, MM, D...) to an Excel number format.
+ */
+const toExcelDateFormat = (pattern: string) =>
+  pattern.replace(/YYYY|YY|MM|M|DD|D/g, token => token.toLowerCase());
+
+/**
+ * Translates a profile time pattern (HH, h, mm, A...) to an Excel number format.
+ * Excel shows a 12-hour clock whenever the format contains AM/PM.
+ */
+const toExcelTimeFormat = (pattern: string) =>
+  pattern.replace(/HH|H|hh|h|mm|A|a/g, token => (token === 'A' ? 'AM/PM' : token === 'a' ? 'am/pm' : token.toLowerCase()));
+
+const tripCell = (trip: TripRow, field: ExportField, profile: ExportProfile): XlsxCell => {
+  const value = exportFieldValue(trip, field);
+  if (DATE_FIELDS.includes(field)) {
+    const date = parseTripDate(value);
+    if (date) {
+      const format = profile.dateFormat ? toExcelDateFormat(profile.dateFormat) : DEFAULT_EXCEL_DATE_FORMAT;
+      return { type: 'date', value: toExcelDate(date.year, date.month, date.day), format };
+    }
+  }
+  if (TIME_FIELDS.includes(field)) {
+    const time = parseTripTime(value);
+    if (time) {
+      const format = profile.timeFormat ? toExcelTimeFormat(profile.timeFormat) : DEFAULT_EXCEL_TIME_FORMAT;
+      return { type: 'date', value: toExcelTime(time.hours, time.minutes), format };
+    }
+  }
+  if (field === 'mileage' && NUMERIC_PATTERN.test(value)) {
+    return { type: 'number', value: Number(value) };
+  }
+  return value ? { type: 'string', value } : null;
+};
+
+const text = (value: string): XlsxCell => ({ type: 'string', value });
+
+/**
+ * Builds a workbook with a "Trips" sheet laid out by the export profile and an
+ * "Issues" sheet listing validation issues. Dates and times are real date cells,
+ * numeric Mileage is a number and everything else (including IDs) is text. A
+ * "Source File" column is added when several runsheets are exported together.
+ */
+export const exportWorkbook = (batches: ExportBatch[], profile: ExportProfile): Promise<Blob> => {
+  const combined = batches.length > 1;
+  const withSource = (batch: ExportBatch, cells: XlsxCell[]) => (combined ? [text(batch.fileName), ...cells] : cells);
+
+  const tripHeader = profile.columns.map(column => text(column.header || defaultHeader(column.field)));
+  const tripRows = batches.flatMap(batch =>
+    batch.trips.map(trip => withSource(batch, profile.columns.map(column => tripCell(trip, column.field, profile))))
+  );
+
+  const issueHeader = ['Row', 'Run Num', 'Customer', 'Field', 'Rule', 'Message'].map(text);
+  const issueRows = batches.flatMap(batch =>
+    batch.issues.map(issue => {
+      const trip = batch.trips[issue.rowIndex];
+      return withSource(batch, [
+        { type: 'number', value: issue.rowIndex + 1 },
+        text(trip?.runNum ?? ''),
+        text(trip?.customer ?? ''),
+        text(defaultHeader(issue.field)),
+        text(issue.rule),
+        text(issue.message),
+      ]);
+    })
+  );
+
+  const sourceHeader = combined ? [text('Source File')] : [];
+  return createXlsx([
+    { name: 'Trips', rows: [[...sourceHeader, ...tripHeader], ...tripRows] },
+    { name: 'Issues', rows: [[...sourceHeader, ...issueHeader], ...issueRows] },
+  ]);
+};
+
+/**
+ * Builds the JSON export described by schemas/runsheet-export.v1.schema.json.
+ * Unlike the CSV and workbook exports it ignores the export profile, so the
+ * shape our API receives never depends on a user's settings.
+ */
+export const exportRunsheetJson = (batches: ExportBatch[], generatedAt: Date = new Date()): RunsheetExport => ({
+  schemaVersion: 1,
+  generatedAt: generatedAt.toISOString(),
+  runsheets: batches.map(batch => ({
+    sourceFile: batch.fileName,
+    trips: batch.trips.map(trip => {
+      const date = parseTripDate(trip.date);
+      const normalizeTime = (value: string) => {
+        const time = parseTripTime(value);
+        return time ? `${pad(time.hours)}:${pad(time.minutes)}` : value;
+      };
+      return {
+        date: date ? `${date.year}-${pad(date.month)}-${pad(date.day)}` : trip.date,
+        runNum: trip.runNum,
+        pickUpTime: normalizeTime(trip.pickUpTime),
+        customer: trip.customer,
+        customerId: trip.customerId,
+        pickupAddress: trip.pickupAddress,
+        dropoffAddress: trip.dropoffAddress,
+        dropoffTime: normalizeTime(trip.dropoffTime),
+        comment: trip.comment,
+        mileage: NUMERIC_PATTERN.test(trip.mileage) ? Number(trip.mileage) : null,
+        mileageSource: NUMERIC_PATTERN.test(trip.mileage) ? trip.mileageSource ?? 'extracted' : null,
+        pages: trip.source
+          ? { firstPage: trip.source.firstPage, lastPage: trip.source.lastPage, ...(trip.source.region ? { region: trip.source.region } : {}) }
+          : null,
+        ...(trip.confidence ? { confidence: trip.confidence.score } : {}),
+      };
+    }),
+    issues: batch.issues.map(issue => ({ row: issue.rowIndex + 1, rule: issue.rule, field: issue.field, message: issue.message })),
+    failedPages: batch.failedPages,
+  })),
+});
+
+/**
+ * File extension for an export, taking the profile's delimiter into account for CSV.
+ */
+export const exportExtension = (format: ExportFormat, profile: ExportProfile): string => {
+  return format === 'csv' ? exportFileExtension(profile) : format;
+};
+
+/**
+ * Builds one downloadable file in the chosen format. Several batches become one
+ * combined file.
+ */
+export const exportBatches = async (batches: ExportBatch[], format: ExportFormat, profile: ExportProfile): Promise<Blob> => {
+  switch (format) {
+    case 'csv': {
+      const csv = batches.length === 1
+        ? exportTripsCsv(batches[0].trips, profile)
+        : exportCombinedCsv(batches, profile);
+      const type = profile.delimiter === '\t' ? 'text/tab-separated-values;charset=utf-8;' : MIME_TYPES.csv;
+      return new Blob([csv], { type });
+    }
+    case 'xlsx':
+      return exportWorkbook(batches, profile);
+    case 'json':
+      return new Blob([JSON.stringify(exportRunsheetJson(batches), null, 2)], { type: MIME_TYPES.json });
+  }
+};
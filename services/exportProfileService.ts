@@ -0,0 +1,195 @@
+import { ExportField, ExportProfile, TripField, TripRow } from '../types';
+import { TRIP_COLUMNS } from './tripRows';
+import { serializeCsv } from '../utils/csvUtils';
+
+const DELIMITERS: ExportProfile['delimiter'][] = [',', ';', '\t', '|'];
+
+const DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})\s*([AaPp])?\.?[Mm]?\.?$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Reads an extracted MM/DD/YYYY date. Returns null for anything else.
+ */
+export const parseTripDate = (value: string): { year: number; month: number; day: number } | null => {
+  const match = value.trim().match(DATE_PATTERN);
+  if (!match) return null;
+  const [, month, day, year] = match.map(Number);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return { year, month, day };
+};
+
+/**
+ * Reads a time such as "8:05", "08:05 PM" or "20:05" as 24-hour clock values.
+ * Returns null when the value can't be read as a time.
+ */
+export const parseTripTime = (value: string): { hours: number; minutes: number } | null => {
+  const match = value.trim().match(TIME_PATTERN);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.toUpperCase();
+  if (hours > 23 || minutes > 59 || (meridiem && (hours < 1 || hours > 12))) return null;
+  if (meridiem === 'P' && hours < 12) hours += 12;
+  if (meridiem === 'A' && hours === 12) hours = 0;
+  return { hours, minutes };
+};
+
+/**
+ * Reformats an extracted MM/DD/YYYY date using a pattern such as "YYYY-MM-DD".
+ * Values that aren't in the extracted format are returned unchanged.
+ */
+export const formatDate = (value: string, pattern: string): string => {
+  const date = parseTripDate(value);
+  if (!date) return value;
+  const tokens: Record<string, string> = {
+    YYYY: String(date.year),
+    YY: String(date.year).slice(-2),
+    MM: pad(date.month),
+    M: String(date.month),
+    DD: pad(date.day),
+    D: String(date.day),
+  };
+  return pattern.replace(/YYYY|YY|MM|M|DD|D/g, token => tokens[token]);
+};
+
+/**
+ * Reformats a time using a pattern such as "HH:mm" or "h:mm A". Values that can't
+ * be read as a time are returned unchanged.
+ */
+export const formatTime = (value: string, pattern: string): string => {
+  const time = parseTripTime(value);
+  if (!time) return value;
+  const { hours, minutes } = time;
+  const twelveHour = hours % 12 === 0 ? 12 : hours % 12;
+  const tokens: Record<string, string> = {
+    HH: pad(hours),
+    H: String(hours),
+    hh: pad(twelveHour),
+    h: String(twelveHour),
+    mm: pad(minutes),
+    A: hours < 12 ? 'AM' : 'PM',
+    a: hours < 12 ? 'am' : 'pm',
+  };
+  return pattern.replace(/HH|H|hh|h|mm|A|a/g, token => tokens[token]);
+};
+
+/**
+ * Every column a profile can export: the ten trip columns, then metadata columns.
+ */
+export const EXPORT_COLUMNS: { key: ExportField; header: string }[] = [
+  ...TRIP_COLUMNS,
+  { key: 'mileageSource', header: 'Mileage Source' },
+  { key: 'sourceFile', header: 'Source File' },
+  { key: 'sourcePage', header: 'Source Page' },
+  { key: 'sourceRegion', header: 'Source Region' },
+  { key: 'confidence', header: 'Confidence' },
+];
+
+export const DATE_FIELDS: ExportField[] = ['date'];
+export const TIME_FIELDS: ExportField[] = ['pickUpTime', 'dropoffTime'];
+
+export const defaultHeader = (field: ExportField) => EXPORT_COLUMNS.find(column => column.key === field)!.header;
+
+/**
+ * The raw text of an export column. Mileage Source is only given for rows that have
+ * a mileage; rows from before it was tracked count as extracted. Source Page is a
+ * page such as "3", or a range such as "3-5" for a trip the AI read from a chunk it
+ * couldn't narrow down. Source Region is "x,y,width,height" in points from the
+ * page's bottom-left corner, and blank when the trip wasn't found in a text layer.
+ * Confidence is the consensus score from 0 to 1, blank for trips read once.
+ */
+export const exportFieldValue = (trip: TripRow, field: ExportField): string => {
+  const { source } = trip;
+  switch (field) {
+    case 'mileageSource':
+      return trip.mileage ? trip.mileageSource ?? 'extracted' : '';
+    case 'sourceFile':
+      return source?.file ?? '';
+    case 'sourcePage':
+      if (!source) return '';
+      return source.firstPage === source.lastPage ? String(source.firstPage) : `${source.firstPage}-${source.lastPage}`;
+    case 'sourceRegion':
+      return source?.region ? [source.region.x, source.region.y, source.region.width, source.region.height].join(',') : '';
+    case 'confidence':
+      return trip.confidence ? String(trip.confidence.score) : '';
+    default:
+      return trip[field as TripField];
+  }
+};
+
+const formatField = (trip: TripRow, field: ExportField, profile: ExportProfile): string => {
+  const value = exportFieldValue(trip, field);
+  if (profile.dateFormat && DATE_FIELDS.includes(field)) return formatDate(value, profile.dateFormat);
+  if (profile.timeFormat && TIME_FIELDS.includes(field)) return formatTime(value, profile.timeFormat);
+  return value;
+};
+
+/**
+ * The header row and one record per trip, with the profile's columns, headers and
+ * formats applied.
+ */
+export const profileRecords = (trips: TripRow[], profile: ExportProfile): string[][] => [
+  profile.columns.map(column => column.header || defaultHeader(column.field)),
+  ...trips.map(trip => profile.columns.map(column => formatField(trip, column.field, profile))),
+];
+
+export const exportTripsCsv = (trips: TripRow[], profile: ExportProfile): string => {
+  return serializeCsv(profileRecords(trips, profile), profile.delimiter);
+};
+
+/**
+ * Exports trips from several runsheets into one file, prefixed with a
+ * "Source File" column naming the PDF each trip came from.
+ */
+export const exportCombinedCsv = (batches: { fileName: string; trips: TripRow[] }[], profile: ExportProfile): string => {
+  const [header] = profileRecords([], profile);
+  return serializeCsv([
+    ['Source File', ...header],
+    ...batches.flatMap(batch => profileRecords(batch.trips, profile).slice(1).map(record => [batch.fileName, ...record])),
+  ], profile.delimiter);
+};
+
+/**
+ * File extension for a profile's output: tab-separated files are saved as .tsv.
+ */
+export const exportFileExtension = (profile: ExportProfile) => (profile.delimiter === '\t' ? 'tsv' : 'csv');
+
+const isExportProfile = (value: unknown): value is ExportProfile => {
+  if (!value || typeof value !== 'object') return false;
+  const profile = value as Record<string, unknown>;
+  return (
+    typeof profile.id === 'string' &&
+    typeof profile.name === 'string' &&
+    DELIMITERS.includes(profile.delimiter as ExportProfile['delimiter']) &&
+    (profile.dateFormat === undefined || typeof profile.dateFormat === 'string') &&
+    (profile.timeFormat === undefined || typeof profile.timeFormat === 'string') &&
+    Array.isArray(profile.columns) &&
+    profile.columns.length > 0 &&
+    profile.columns.every(column =>
+      column && typeof column === 'object' &&
+      EXPORT_COLUMNS.some(known => known.key === column.field) &&
+      (column.header === undefined || typeof column.header === 'string')
+    )
+  );
+};
+
+/**
+ * Parses a JSON list of export profiles (or a single profile), as exported from the
+ * settings panel.
+ */
+export const parseExportProfilesJson = (json: string): ExportProfile[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The export profile file is not valid JSON.');
+  }
+
+  const profiles = Array.isArray(parsed) ? parsed : [parsed];
+  if (!profiles.every(isExportProfile)) {
+    throw new Error('Each export profile needs an id, a name, a supported delimiter and at least one known column.');
+  }
+  return profiles;
+};
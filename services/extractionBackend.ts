@@ -0,0 +1,150 @@
+import { GoogleGenAI } from "@google/genai";
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-pro';
+
+/**
+ * One extraction call: the instructions plus a single PDF chunk.
+ */
+export interface ExtractionRequest {
+  prompt: string;
+  base64Data: string;
+  mimeType: string;
+  /** Aborts the request when the conversion is cancelled. */
+  signal?: AbortSignal;
+  /**
+   * `trips` asks for the CSV; `correction` asks for one page's CSV again after its
+   * chunk broke the integrity rules; `consensus` is the second, independent read of
+   * the same pages in consensus mode; `page-check` asks whether a scanned page is
+   * blank or rotated. Defaults to `trips`.
+   */
+  purpose?: 'trips' | 'correction' | 'consensus' | 'page-check';
+  /** Sampling temperature. Omit to use the model's default. */
+  temperature?: number;
+}
+
+/**
+ * Anything that can turn a runsheet chunk into raw CSV text. The pipeline in
+ * `geminiService.ts` only talks to this interface, so chunking, merging and
+ * fill-down behave the same regardless of which model answers.
+ *
+ * Implementations should throw errors whose message contains "500" or "internal"
+ * for transient server failures so the caller's retry/backoff logic applies.
+ */
+export interface ExtractionBackend {
+  readonly name: string;
+  extract(request: ExtractionRequest): Promise<string>;
+}
+
+export type BackendConfig =
+  | { kind: 'gemini'; apiKey: string; model?: string }
+  | { kind: 'openai-compatible'; baseUrl: string; model: string; apiKey?: string }
+  | { kind: 'fake'; responses: string[] };
+
+export const createGeminiBackend = (apiKey: string, model: string = DEFAULT_GEMINI_MODEL): ExtractionBackend => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: `gemini:${model}`,
+    async extract({ prompt, base64Data, mimeType, signal, temperature }) {
+      const response = await ai.models.generateContent({
+        model,
+        config: { abortSignal: signal, temperature },
+        contents: {
+          parts: [
+            { text: prompt },
+            {
+              inlineData: {
+                data: base64Data,
+                mimeType: mimeType,
+              },
+            },
+          ],
+        },
+      });
+      return response.text ?? '';
+    },
+  };
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API (OpenAI itself,
+ * vLLM, LM Studio, llama.cpp server...). The PDF chunk is sent as a `file` content
+ * part, so the served model must accept document input.
+ */
+export const createOpenAiCompatibleBackend = (baseUrl: string, model: string, apiKey?: string): ExtractionBackend => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: `openai-compatible:${model}`,
+    async extract({ prompt, base64Data, mimeType, signal, temperature }) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          ...(temperature !== undefined ? { temperature } : {}),
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: prompt },
+                {
+                  type: 'file',
+                  file: { filename: 'runsheet.pdf', file_data: `data:${mimeType};base64,${base64Data}` },
+                },
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Extraction server responded with ${response.status}: ${await response.text()}`);
+      }
+
+      const payload = await response.json();
+      return payload?.choices?.[0]?.message?.content ?? '';
+    },
+  };
+};
+
+/**
+ * Deterministic backend for offline runs. Returns the canned responses in order,
+ * one per chunk, wrapping around when there are more chunks than responses. Page
+ * checks are answered with an upright page and don't use up a response; the second
+ * pass of consensus mode gets the same response as the request before it.
+ */
+export const createFakeBackend = (responses: string[]): ExtractionBackend => {
+  if (responses.length === 0) {
+    throw new Error('The fake backend needs at least one canned response.');
+  }
+  let callCount = 0;
+  let lastResponse = responses[0];
+
+  return {
+    name: 'fake',
+    async extract({ signal, purpose }) {
+      signal?.throwIfAborted();
+      if (purpose === 'page-check') return '0';
+      if (purpose === 'consensus') return lastResponse;
+      lastResponse = responses[callCount % responses.length];
+      callCount++;
+      return lastResponse;
+    },
+  };
+};
+
+export const createExtractionBackend = (config: BackendConfig): ExtractionBackend => {
+  switch (config.kind) {
+    case 'gemini':
+      return createGeminiBackend(config.apiKey, config.model);
+    case 'openai-compatible':
+      return createOpenAiCompatibleBackend(config.baseUrl, config.model, config.apiKey);
+    case 'fake':
+      return createFakeBackend(config.responses);
+  }
+};
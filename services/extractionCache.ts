@@ -0,0 +1,50 @@
+import { sha256Hex } from '../utils/hashUtils';
+
+/**
+ * Part of every cache key, next to the prompt text and the chunk bytes. Bump it when
+ * cached responses would be read differently without the prompt changing, e.g. when
+ * the clean-up of model output changes. Abbreviations, reconciliation and mileage run
+ * after extraction, so editing those never invalidates the cache.
+ */
+export const EXTRACTION_CACHE_VERSION = 1;
+
+/**
+ * Where extracted chunk CSV is kept between conversions. Stores never throw for a
+ * missing key; they resolve to null.
+ */
+export interface ExtractionCache {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, csv: string): Promise<void>;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * The cache key for one extraction request: the same pages sent to the same backend
+ * with the same prompt produce the same key, so a corrected PDF only misses for the
+ * chunks whose pages changed.
+ */
+export const extractionCacheKey = async (backendName: string, prompt: string, chunkBytes: Uint8Array): Promise<string> => {
+  const [promptHash, chunkHash] = await Promise.all([sha256Hex(encoder.encode(prompt)), sha256Hex(chunkBytes)]);
+  return sha256Hex(encoder.encode(`${EXTRACTION_CACHE_VERSION}|${backendName}|${promptHash}|${chunkHash}`));
+};
+
+/**
+ * Keeps responses in memory for the lifetime of the process, dropping the oldest
+ * once `maxEntries` is reached.
+ */
+export const createMemoryCache = (maxEntries: number = 500): ExtractionCache => {
+  const entries = new Map<string, string>();
+  return {
+    name: 'memory',
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async set(key, csv) {
+      entries.delete(key);
+      entries.set(key, csv);
+      if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+  };
+};
@@ -0,0 +1,37 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { ExtractionCache } from './extractionCache';
+
+/**
+ * Keeps extracted chunk CSV as files under `directory`, one per key, fanned out by
+ * the first two characters of the key. Server and CLI only. Writes go through a
+ * temporary file so concurrent conversions never read half a response.
+ */
+export const createFileSystemCache = (directory: string): ExtractionCache => {
+  const pathFor = (key: string) => join(directory, key.slice(0, 2), `${key}.csv`);
+
+  return {
+    name: `filesystem:${directory}`,
+    async get(key) {
+      try {
+        return await readFile(pathFor(key), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.warn('Could not read the extraction cache.', error);
+        }
+        return null;
+      }
+    },
+    async set(key, csv) {
+      const path = pathFor(key);
+      const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+      try {
+        await mkdir(join(directory, key.slice(0, 2)), { recursive: true });
+        await writeFile(tempPath, csv, 'utf8');
+        await rename(tempPath, path);
+      } catch (error) {
+        console.warn('Could not write to the extraction cache.', error);
+      }
+    },
+  };
+};
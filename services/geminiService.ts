@@ -1,27 +1,105 @@
-import { GoogleGenAI } from "@google/genai";
-import { PDFDocument } from 'pdf-lib';
+import { degrees, PDFDocument } from 'pdf-lib';
+import { ExtractionBackend, ExtractionRequest } from './extractionBackend';
+import { extractPageTextRuns, findRunsheetDate, locateTrip, pagePhrases, PageTextRuns, parseRunsheetTextLayer } from './textLayerParser';
+import { csvToTripRows } from './tripRows';
+import { mergePasses, SECOND_PASS_TEMPERATURE } from './consensusService';
+import { appliedTemplate, chooseTemplate, TEMPLATE_COLUMNS, validateWithTemplate } from './templateService';
+import { DistanceProvider } from './mileageService';
+import { ExtractionCache, extractionCacheKey } from './extractionCache';
+import { finishConversion } from './postProcessingService';
+import { PAGE_CHECK_PROMPT, parsePageCheck, PageCheck } from './pageCheckService';
+import { AbbreviationDictionary } from '../data/abbreviations';
+import { DEFAULT_TEMPLATES } from '../data/runsheetTemplates';
+import {
+  ConversionProgress,
+  ConversionResult,
+  ConvertedSegment,
+  DateOrder,
+  FailedPage,
+  PageSource,
+  RunsheetTemplate,
+  TemplateColumn,
+  TripRow,
+  ValidationRule,
+} from '../types';
 
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY_MS = 1000;
-const CHUNK_SIZE = 20; // Process 20 pages at a time
+const DEFAULT_CHUNK_SIZE = 20; // Process 20 pages at a time
 
-const PROMPT = `
+const DATE_ORDER_TEXT: Record<DateOrder, string> = { MDY: 'month/day/year', DMY: 'day/month/year' };
+
+const quoteList = (values: string[]) => values.map(value => `"${value}"`).join(', ');
+
+/**
+ * Builds the extraction prompt for a runsheet template: its column headings, date
+ * conventions, codes and integrity rules. Instructions for columns the layout doesn't
+ * have are left out.
+ */
+export const buildExtractionPrompt = (template: RunsheetTemplate): string => {
+  const { headings, dateOrders, rules } = template;
+  const heading = (column: TemplateColumn) => headings[column]?.[0];
+  const cityCode = Object.keys(template.abbreviations.cities)[0];
+  const commentCodes = Object.keys(template.abbreviations.comments).slice(0, 3);
+  const mainDateExample = dateOrders.slash === 'MDY' ? '10/2/2025' : '2/10/2025';
+  const dottedExample = dateOrders.dotted === 'DMY' ? '02.10.25' : '10.02.25';
+
+  const pickupComments = [
+    '          - Start with the label `Pickup Comments: `.',
+    '          - Append any text moved from the "Pickup Address" field.',
+    ...(heading('passengers')
+      ? [`          - Append the passenger count from the "${heading('passengers')}" column, formatted as: \` / Passengers: [value from ${heading('passengers')} column]\`.`]
+      : []),
+    ...(heading('device')
+      ? [`          - Append the accessibility device code from the "${heading('device')}" column exactly as printed, formatted as: \` / Device: [value from ${heading('device')} column]\`.`]
+      : []),
+  ];
+  const dropoffComments = [
+    '          - Add a separator and the label: ` / Dropoff Comments: `.',
+    '          - Append any text moved from the "Dropoff Address" field.',
+    ...(heading('dropoffComments') ? [`          - Append the entire content from the PDF's "${heading('dropoffComments')}" column.`] : []),
+  ];
+
+  const dropoffFields = [
+    ...(rules.includes('dropoff-address-required') ? ['**"Dropoff Address"**'] : []),
+    ...(rules.includes('dropoff-time-required') ? ['**"Dropoff Time"**'] : []),
+  ];
+  const finalChecks = [
+    ...(rules.includes('customer-id-required') ? [`**Customer Data Integrity Check:**
+          - For EVERY row that contains a "Customer", it is **MANDATORY** that the **"Customer ID"** column is populated.`] : []),
+    ...(dropoffFields.length > 0 ? [`**Dropoff Data Integrity Check:**
+          - For EVERY row that contains a "Customer", it is **MANDATORY** that ${dropoffFields.length === 2 ? `both the ${dropoffFields.join(' and the ')} columns are` : `the ${dropoffFields[0]} column is`} populated with the correct data from the document.
+          - There are no exceptions. If you find a row where ${dropoffFields.length === 2 ? 'either of these fields is' : 'this field is'} blank, you must immediately re-analyze that specific trip in the source document and fill in the missing information. This is especially critical for shared rides (multiple rows with the same "Run Num"), where each customer has their own unique dropoff details.`] : []),
+    `**Mileage Data Integrity Check:**
+          - For EVERY row with a "Customer", the "Mileage" column must contain the number printed in the document for that run, or be empty if the document gives none. Never fill it with a value of your own.${rules.includes('mileage-consistent-in-run') ? `
+          - **Crucially, re-verify that all rows with the SAME "Run Num" have the IDENTICAL value in the "Mileage" column.**` : ''}`,
+  ];
+
+  const layout = TEMPLATE_COLUMNS
+    .filter(column => headings[column.key])
+    .map(column => `      - ${column.label}: ${quoteList(headings[column.key]!)}`);
+
+  return `
       You are an expert data extraction and transformation tool. Your task is to analyze the provided PDF transportation runsheet and convert all the relevant data into a single, clean CSV formatted string.
 
       The final CSV file MUST have the following columns in this exact order:
       "Date","Run Num","Pick Up Time","Customer","Customer ID","Pickup Address","Dropoff Address","Dropoff Time","Comment","Mileage"
 
+      This runsheet uses the "${template.name}" layout. Its columns are headed as follows (case and punctuation may vary):
+${layout.join('\n')}
+
       Follow these specific instructions for data transformation for EACH ROW of the PDF:
 
       ### Part 1: Core Data Extraction
 
       1.  **"Date" Column:**
-          - Identify the main date for the runsheet, which is typically located at the top of the PDF page (e.g., "10/2/2025").
+          - Identify the main date for the runsheet, which is typically located at the top of the PDF page (e.g., "${mainDateExample}").
+          - On this runsheet, dates written with slashes or dashes are ${DATE_ORDER_TEXT[dateOrders.slash]}, and dates written with dots are ${DATE_ORDER_TEXT[dateOrders.dotted]}.
           - Apply this single date to ALL rows in the final CSV.
-          - Ensure the date format in the CSV is strictly \`MM/DD/YYYY\`. For example, if a row's date in the PDF is '02.10.25', you must convert it to \`10/02/2025\` using the year from the main document date.
+          - Ensure the date format in the CSV is strictly \`MM/DD/YYYY\`. For example, if a row's date in the PDF is '${dottedExample}', you must convert it to \`10/02/2025\` using the year from the main document date.
 
       2.  **"Customer ID" Column:**
-          - Locate the unique identifier for each customer, often labeled as "ID", "Customer #", or similar, usually next to the customer's name.
+          - Locate the unique identifier for each customer, often labeled as ${quoteList(headings.customerId ?? ['ID', 'Customer #'])} or similar, usually next to the customer's name.
           - This is a mandatory field for every row that has a "Customer".
 
       3.  **"Dropoff Time" Column:**
@@ -32,9 +110,8 @@ const PROMPT = `
           - The mileage value for the entire shared ride is often listed only ONCE in the PDF for that "Run Num".
           - You **MUST** find this single mileage value and apply it **IDENTICALLY** to **EVERY ROW** that shares that "Run Num".
           - **DO NOT** split, divide, or estimate mileage for individual passengers within the same run. For example, if a run has 3 passengers and the mileage is 16.951, all three rows must show 16.951 in the "Mileage" column.
-          - If the mileage value is missing, blank, or zero for the entire run, you **MUST calculate the approximate driving mileage** for the run. Do this calculation once and apply the same result to all rows of that "Run Num".
-          - For single-passenger trips (unique "Run Num"), use the provided mileage or calculate it if missing.
-          - Ensure the final value is a number. This is a non-negotiable step to ensure every trip has a valid, consistent mileage value.
+          - If the mileage value is missing or blank for the entire run, leave the "Mileage" column EMPTY for every row of that run. Do NOT calculate, estimate or guess a distance; missing mileage is computed from the addresses after extraction.
+          - Copy the number exactly as printed (e.g. 16.951), without units.
 
       ### Part 2: Data Fill-Down & Address Processing
 
@@ -47,73 +124,42 @@ const PROMPT = `
           - After applying the fill-down logic, process the "Pickup Address" field.
           - Extract ONLY the street address and city. The address is considered complete once you reach the city name.
           - Move any text that appears *after* the city name (e.g., intersection details, notes) to the "Comment" column.
-          - After extracting the clean address, it is **MANDATORY** to replace any city abbreviations using the **City Mappings** below. No abbreviations are allowed in the final output.
-          - **Example**: "70 LEONARD AVE, TOROTO" MUST become "70 LEONARD AVE, TORONTO".
-
+          - Copy the city exactly as it is printed, including abbreviations. Do NOT expand or correct city abbreviations; they are expanded automatically after extraction.
+${cityCode ? `          - **Example**: "70 LEONARD AVE, ${cityCode}" stays "70 LEONARD AVE, ${cityCode}".\n` : ''}
       3.  **"Dropoff Address" Column:**
           - For every trip with a customer and pickup address, you MUST extract the corresponding dropoff address. This field is mandatory and must not be left blank if the information exists in the document.
-          - Perform the same extraction and mandatory mapping process as the "Pickup Address". Move any extra text to the "Comment" column.
-          - **Example**: "5 PIPPIN PL, ETOBI" MUST become "5 PIPPIN PL, ETOBICOKE".
-
-      ### Part 3: The "Comment" Column & Mappings
+          - Perform the same extraction process as the "Pickup Address". Move any extra text to the "Comment" column.
+${cityCode ? `          - **Example**: "5 PIPPIN PL, ${cityCode}" stays "5 PIPPIN PL, ${cityCode}".\n` : ''}
+      ### Part 3: The "Comment" Column
 
       This single column combines all notes. Construct it carefully by following these steps in order:
 
       1.  **Build the Pickup Comments section:**
-          - Start with the label \`Pickup Comments: \`.
-          - Append any text moved from the "Pickup Address" field.
-          - Append the passenger count from the "Nb." column, formatted as: \` / Passengers: [value from Nb. column]\`.
-          - Append the accessibility device from the "Dev." column, using the full text from the **Comment Mappings**, formatted as: \` / Device: [full device text]\`.
+${pickupComments.join('\n')}
 
       2.  **Build the Dropoff Comments section:**
-          - Add a separator and the label: \` / Dropoff Comments: \`.
-          - Append any text moved from the "Dropoff Address" field.
-          - Append the entire content from the PDF's "Drop_Off_Comments" column.
+${dropoffComments.join('\n')}
 
       3.  **Clean and Finalize the ENTIRE Comment String:**
           - After combining all parts, clean the entire string:
             a. Replace all newlines ('\\n', '\\r') with ' / '.
             b. Remove metadata headers like '* Building / Suite / Charac. / Note:'.
             c. Replace ' Yes / ' with a single space.
-          - Finally, apply all abbreviation replacements from the **Comment Mappings** to the entire combined string.
-
-      **City Mappings (Apply to both Pickup and Dropoff Addresses):**
-      - 'NORTH': 'NORTH YORK', 'SCARB': 'SCARBOROUGH', 'TOROT': 'TORONTO', 'MARKH': 'MARKHAM', 'EASTY': 'EAST YORK', 'ETOBI': 'ETOBICOKE', 'VAUGH': 'VAUGHAN', 'MISSI': 'MISSISSAUGA', 'PICKE': 'PICKERING', 'YORK': 'TORONTO'
-
-      **Comment Mappings:**
-      - "DNLU": "Do Not Leave Unattended", "MAND.ESC": "Mandatory Escort / Support Person Required", "COG": "Cognitive (disability)", "APT BLDG": "Apartment Building", "MSP": "Mandatory Support Person", "FRONT ENTR": "Front Entrance", "FRONT": "Front Entrance", "CHEMO": "Chemotherapy (medical condition)", "SUP. PER": "Support Person", "SEIZ": "Seizures (medical condition)", "MAIN ENT": "Main Entrance", "EPILEPSY": "Epilepsy (medical condition)", "CX": "Customer", "P/U": "Pickup", "PU": "Pickup", "D/O": "Dropoff", "DO": "Dropoff", "SPAC": "Support Person Card", "ADP": "A Day Program", 'CANE': 'CANE', 'WALKER': 'WALKER', 'KF': 'Folding Cane or Walker', 'KNF': 'Non-folding Cane or Walker', 'WNF': 'Walker non folding'
+          - Keep every abbreviation and code${commentCodes.length > 0 ? ` (e.g. ${commentCodes.map(code => `'${code}'`).join(', ')})` : ''} exactly as printed. Do NOT expand them; they are expanded automatically after extraction.
 
       ### Part 4: ABSOLUTE FINAL VALIDATION - NON-NEGOTIABLE RULES
       Before providing the final CSV output, you must perform a self-correction pass and verify every single row against these rules. Failure to comply will result in an incorrect output.
 
-      1.  **Customer Data Integrity Check:**
-          - For EVERY row that contains a "Customer", it is **MANDATORY** that the **"Customer ID"** column is populated.
-
-      2.  **Dropoff Data Integrity Check:**
-          - For EVERY row that contains a "Customer", it is **MANDATORY** that both the **"Dropoff Address"** and the **"Dropoff Time"** columns are populated with the correct data from the document.
-          - There are no exceptions. If you find a row where either of these fields is blank, you must immediately re-analyze that specific trip in the source document and fill in the missing information. This is especially critical for shared rides (multiple rows with the same "Run Num"), where each customer has their own unique dropoff details.
-
-      3.  **Mileage Data Integrity Check:**
-          - For EVERY row with a "Customer", the "Mileage" column MUST be populated with a numerical value. If the value was missing in the source document, it **MUST be populated with your calculated value**.
-          - **Crucially, re-verify that all rows with the SAME "Run Num" have the IDENTICAL value in the "Mileage" column.**
-
-      4.  **City Abbreviation Check:**
-          - After all other validations, scan both the "Pickup Address" and "Dropoff Address" columns one last time. Confirm that ALL city abbreviations (e.g., 'TOROT', 'SCARB', 'ETOBI') have been replaced with their full names as defined in the City Mappings.
-
+${finalChecks.map((check, index) => `      ${index + 1}.  ${check}`).join('\n\n')}
+${template.notes ? `
+      ### Notes for this layout
+      ${template.notes}
+` : ''}
       **Final Output Rules:**
       - Your entire response MUST be only the CSV header row followed by the data rows.
       - Do NOT include any explanations, introductory text, or markdown formatting like \`\`\`csv or \`\`\`.
       - If a value for a specific column is not found for a row, leave it empty.
     `;
-
-const base64ToUint8Array = (base64: string): Uint8Array => {
-    const binary_string = window.atob(base64);
-    const len = binary_string.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binary_string.charCodeAt(i);
-    }
-    return bytes;
 };
 
 const uint8ArrayToBase64 = (bytes: Uint8Array): string => {
@@ -125,34 +171,53 @@ const uint8ArrayToBase64 = (bytes: Uint8Array): string => {
     return btoa(binary);
 };
 
-const callGeminiWithRetry = async (
-  ai: GoogleGenAI,
+/**
+ * Builds the prompt for re-extracting a single page after its chunk failed or
+ * returned rows that broke the integrity rules.
+ * @param prompt - The template's extraction prompt.
+ * @param problems - What went wrong the first time, as human-readable sentences.
+ */
+const buildCorrectionPrompt = (prompt: string, problems: string[]): string => `${prompt}
+      ### Correction Pass
+      This document is a SINGLE page taken from a larger runsheet. A previous extraction of the pages around it had these problems:
+${problems.map(problem => `      - ${problem}`).join('\n')}
+
+      Re-read this page carefully. For every trip on it, make sure the "Customer ID", "Dropoff Address" and "Dropoff Time" are filled in from the document, and "Mileage" wherever the document prints it.
+      Problems that refer to customers who are not on this page can be ignored.
+    `;
+
+/**
+ * Builds the prompt for the second pass of consensus mode. It asks for the same CSV
+ * but reads the table in a different order, so the two passes don't simply repeat
+ * the same slip.
+ * @param prompt - The prompt of the first pass.
+ */
+const buildSecondPassPrompt = (prompt: string): string => `${prompt}
+      ### Independent Second Reading
+      Read the table one column at a time instead of row by row: first every "Run Num", then every customer and "Customer ID", then the addresses, and then the times, comments and mileage, and only then assemble the rows.
+      Check every "Customer ID" and time digit by digit against the document. Do not guess a value you cannot read; leave it empty.
+    `;
+
+const extractWithRetry = async (
+  backend: ExtractionBackend,
   base64Page: string,
-  mimeType: string
+  mimeType: string,
+  prompt: string,
+  signal?: AbortSignal,
+  onRetry: () => void = () => {},
+  purpose: ExtractionRequest['purpose'] = 'trips',
+  temperature?: number
 ): Promise<string> => {
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    if (attempt > 0) onRetry();
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-pro',
-        contents: {
-          parts: [
-            { text: PROMPT },
-            {
-              inlineData: {
-                data: base64Page,
-                mimeType: mimeType,
-              },
-            },
-          ],
-        },
-      });
-      
-      const text = response.text ?? '';
+      const text = await backend.extract({ prompt, base64Data: base64Page, mimeType, signal, purpose, temperature });
       return text.replace(/^```(?:csv)?\n?/, '').replace(/```$/, '').trim();
 
     } catch (error) {
+      signal?.throwIfAborted();
       console.error(`Error on page conversion (attempt ${attempt + 1}/${MAX_RETRIES}):`, error);
       lastError = error instanceof Error ? error : new Error(String(error));
       const errorMessage = (lastError.message || '').toLowerCase();
@@ -178,73 +243,300 @@ const callGeminiWithRetry = async (
   throw new Error('Failed to convert a page. The file may be corrupted or in an unsupported format.');
 };
 
+export interface ConversionOptions {
+  /** The runsheet's layout. When omitted it is detected from page one's headings. */
+  template?: RunsheetTemplate;
+  /** Templates to detect the layout from. Defaults to the built-in ones. */
+  templates?: RunsheetTemplate[];
+  /** The user's own abbreviations, layered on the template's dictionary. */
+  abbreviations?: AbbreviationDictionary;
+  /** Maximum number of pages sent to the backend in one request. Defaults to 20. */
+  chunkSize?: number;
+  /** Computes Mileage for runs the runsheet gives none for. Without one, it stays blank. */
+  distanceProvider?: DistanceProvider | null;
+  /** Reuses earlier responses for chunks whose pages and prompt haven't changed. */
+  cache?: ExtractionCache | null;
+  /** Name of the uploaded file, recorded in every trip's source. */
+  sourceFile?: string;
+  /**
+   * Reads every page the AI extracts twice, the second time with a different prompt
+   * and temperature, and scores each trip by how far the passes agree. Doubles the
+   * requests to the backend.
+   */
+  consensus?: boolean;
+  /** Stops the conversion; chunks that already finished are kept in the result. */
+  signal?: AbortSignal;
+  /** Receives each finished page or chunk as soon as its trips are final. */
+  onSegment?: (segment: ConvertedSegment) => void;
+  /**
+   * Asks the backend, one request per page, whether pages without a text layer are
+   * blank and which way up they are. Defaults to true.
+   */
+  checkPages?: boolean;
+}
+
 /**
- * Programmatically applies fill-down logic to a combined CSV string array.
- * This ensures shared rides have their pickup info correctly filled,
- * correcting any misses that happen at the boundaries of page chunks.
- * @param csvLines - An array of strings, where each string is a line from the CSV.
- * @returns A corrected array of CSV lines.
+ * A run of pages handled the same way: a single page read from its text layer, or
+ * up to `chunkSize` pages sent to the extraction backend together. Empty pages are
+ * left out, so a chunk may skip over them.
  */
-const applyFillDownLogic = (csvLines: string[]): string[] => {
-    if (csvLines.length <= 1) { // Not enough data to process
-        return csvLines;
+type PageSegment =
+  | { method: 'text-layer'; pageIndex: number; rows: TripRow[] }
+  | { method: 'ai'; pageIndices: number[] };
+
+const planSegments = (
+  pageCount: number,
+  textLayerRows: Map<number, TripRow[]>,
+  emptyPages: Set<number>,
+  chunkSize: number
+): PageSegment[] => {
+  const segments: PageSegment[] = [];
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    if (emptyPages.has(pageIndex)) continue;
+    const rows = textLayerRows.get(pageIndex);
+    const last = segments[segments.length - 1];
+    if (rows) {
+      segments.push({ method: 'text-layer', pageIndex, rows });
+    } else if (last?.method === 'ai' && last.pageIndices.length < chunkSize) {
+      last.pageIndices.push(pageIndex);
+    } else {
+      segments.push({ method: 'ai', pageIndices: [pageIndex] });
     }
+  }
+  return segments;
+};
+
+/**
+ * Rules the model can fix by looking at the page again. Mileage consistency across a
+ * run and city codes are handled after merging, and missing mileage is computed from
+ * the addresses, so they don't trigger a retry.
+ */
+const RETRYABLE_RULES: ValidationRule[] = ['customer-id-required', 'dropoff-address-required', 'dropoff-time-required'];
 
-    const unquote = (s: string) => s?.trim().replace(/^"|"$/g, '') || '';
+const findRetryableIssues = (trips: TripRow[], template: RunsheetTemplate) => {
+  return validateWithTemplate(trips, template).filter(issue => RETRYABLE_RULES.includes(issue.rule));
+};
 
-    const header = csvLines[0].split(',').map(unquote);
-    const runNumberIndex = header.indexOf('Run Num');
-    const pickupTimeIndex = header.indexOf('Pick Up Time');
-    const pickupAddressIndex = header.indexOf('Pickup Address');
+/**
+ * The outcome of extracting one chunk of pages with the backend.
+ */
+interface ChunkResult {
+  pageIndices: number[];
+  status: 'ok' | 'corrected' | 'failed';
+  trips: TripRow[];
+  failedPages: FailedPage[];
+}
+
+/**
+ * Everything the chunk extraction needs besides the pages themselves.
+ */
+interface ExtractionContext {
+  template: RunsheetTemplate;
+  /** The extraction prompt built for the template. */
+  prompt: string;
+  pdfDoc: PDFDocument;
+  /** The text layer of every page; pages without one have no runs. */
+  textPages: PageTextRuns[];
+  mimeType: string;
+  backend: ExtractionBackend;
+  cache: ExtractionCache | null;
+  /** Whether every extraction is read a second time and the passes compared. */
+  consensus: boolean;
+  signal?: AbortSignal;
+  /** The latest progress snapshot; counters are updated through `report`. */
+  progress: ConversionProgress;
+  report: (changes: Partial<ConversionProgress>) => void;
+}
+
+const pageRangeLabel = (pageIndices: number[]) => pageIndices.length === 1
+  ? `Page ${pageIndices[0] + 1}`
+  : `Pages ${pageIndices[0] + 1}-${pageIndices[pageIndices.length - 1] + 1}`;
 
-    if (runNumberIndex === -1 || pickupTimeIndex === -1 || pickupAddressIndex === -1) {
-        console.warn('Could not find required columns for fill-down logic. Skipping.');
-        return csvLines;
+/**
+ * Sends the given pages with a prompt to the backend, or takes the answer from the
+ * cache when the same pages were sent with the same prompt before.
+ */
+const requestPages = async (
+  context: ExtractionContext,
+  pageIndices: number[],
+  prompt: string,
+  purpose: ExtractionRequest['purpose'] = 'trips'
+): Promise<string> => {
+  const { pdfDoc, mimeType, backend, cache, signal, progress, report } = context;
+  // Without metadata updates the bytes only depend on the pages, so they can be hashed
+  const subDocument = await PDFDocument.create({ updateMetadata: false });
+  const copiedPages = await subDocument.copyPages(pdfDoc, pageIndices);
+  copiedPages.forEach(page => subDocument.addPage(page));
+
+  const chunkBytes = await subDocument.save();
+  const cacheKey = cache ? await extractionCacheKey(backend.name, prompt, chunkBytes) : null;
+  const cached = cache && cacheKey ? await cache.get(cacheKey) : null;
+  if (cached !== null) {
+    report({ cacheHits: progress.cacheHits + 1, message: `${pageRangeLabel(pageIndices)}: using cached result.` });
+    return cached;
+  }
+
+  if (cache) {
+    report({ cacheMisses: progress.cacheMisses + 1, message: `${pageRangeLabel(pageIndices)}: not cached, sending to ${backend.name}...` });
+  }
+  const onRetry = () => report({ retries: progress.retries + 1, message: `${pageRangeLabel(pageIndices)}: the model is busy, retrying...` });
+  const temperature = purpose === 'consensus' ? SECOND_PASS_TEMPERATURE : undefined;
+  const response = await extractWithRetry(backend, uint8ArrayToBase64(chunkBytes), mimeType, prompt, signal, onRetry, purpose, temperature);
+  if (cache && cacheKey) await cache.set(cacheKey, response);
+  return response;
+};
+
+const extractPages = async (
+  context: ExtractionContext,
+  pageIndices: number[],
+  prompt: string = context.prompt,
+  purpose: ExtractionRequest['purpose'] = 'trips'
+): Promise<TripRow[]> => {
+  let trips = csvToTripRows(await requestPages(context, pageIndices, prompt, purpose));
+  if (context.consensus) {
+    context.report({ message: `${pageRangeLabel(pageIndices)}: reading a second time to compare...` });
+    try {
+      trips = mergePasses(trips, csvToTripRows(await requestPages(context, pageIndices, buildSecondPassPrompt(prompt), 'consensus')));
+    } catch (error) {
+      // Without a second reading the rows are kept, but unscored
+      context.signal?.throwIfAborted();
+      console.warn(`${pageRangeLabel(pageIndices)}: the second pass failed; keeping the first without confidence scores.`, error);
     }
+  }
 
-    const dataRows = csvLines.slice(1).map(line => line.split(','));
+  const source = { firstPage: pageIndices[0] + 1, lastPage: pageIndices[pageIndices.length - 1] + 1 };
+  const textPages = context.textPages.filter(page => pageIndices.includes(page.pageNumber - 1));
+  return trips.map(trip => {
+    // Pages that fell back to the AI may still have a text layer to find the trip in
+    const located = locateTrip(trip, textPages);
+    return located
+      ? { ...trip, source: { firstPage: located.pageNumber, lastPage: located.pageNumber, region: located.region } }
+      : { ...trip, source };
+  });
+};
 
-    for (let i = 1; i < dataRows.length; i++) {
-        const prevRow = dataRows[i - 1];
-        const currentRow = dataRows[i];
+/**
+ * Asks the backend whether a page without a text layer has content and which way up
+ * it is. A failed check is logged and treated as an upright page with content.
+ */
+const checkPage = async (context: ExtractionContext, pageIndex: number): Promise<PageCheck> => {
+  try {
+    return parsePageCheck(await requestPages(context, [pageIndex], PAGE_CHECK_PROMPT, 'page-check'));
+  } catch (error) {
+    context.signal?.throwIfAborted();
+    console.warn(`Could not check page ${pageIndex + 1}; extracting it as it is.`, error);
+    return { kind: 'content', rotation: 0 };
+  }
+};
 
-        if (prevRow.length <= runNumberIndex || currentRow.length <= runNumberIndex) continue;
+/**
+ * Identifies a trip between two readings of the same pages: its run and passenger,
+ * by ID or by name when the ID is missing.
+ */
+const readingKey = (trip: TripRow) => `${trip.runNum.trim()}|${trip.customerId.trim() || trip.customer.trim().toUpperCase()}`;
 
-        const prevRunNumber = unquote(prevRow[runNumberIndex]);
-        const currentRunNumber = unquote(currentRow[runNumberIndex]);
+/**
+ * Extracts a chunk and, when the whole chunk fails or its rows break the integrity
+ * rules, re-extracts it one page at a time with a correction prompt. Pages that come
+ * back keep their new rows; pages whose re-extraction fails are reported as failed
+ * and keep the chunk's rows for them, if it had any. When every page came back, the
+ * chunk's rows are only kept if the per-page ones break more rules.
+ * Cancellation is rethrown rather than treated as a failure.
+ */
+const extractChunk = async (context: ExtractionContext, pageIndices: number[]): Promise<ChunkResult> => {
+  let chunkTrips: TripRow[] = [];
+  let problems: string[];
+  try {
+    chunkTrips = await extractPages(context, pageIndices);
+    const issues = findRetryableIssues(chunkTrips, context.template);
+    if (chunkTrips.length > 0 && issues.length === 0) {
+      return { pageIndices, status: 'ok', trips: chunkTrips, failedPages: [] };
+    }
+    problems = chunkTrips.length === 0 ? ['No trips were returned.'] : issues.map(issue => issue.message);
+  } catch (error) {
+    context.signal?.throwIfAborted();
+    problems = [error instanceof Error ? error.message : String(error)];
+  }
 
-        if (currentRunNumber && currentRunNumber === prevRunNumber) {
-            const currentPickupTime = unquote(currentRow[pickupTimeIndex]);
-            const currentPickupAddress = unquote(currentRow[pickupAddressIndex]);
+  const pageTrips = new Map<number, TripRow[]>();
+  const failedPages: FailedPage[] = [];
+  const correctionPrompt = buildCorrectionPrompt(context.prompt, problems);
 
-            if (!currentPickupTime || !currentPickupAddress) {
-                if (prevRow.length > Math.max(pickupTimeIndex, pickupAddressIndex)) {
-                   currentRow[pickupTimeIndex] = prevRow[pickupTimeIndex];
-                   currentRow[pickupAddressIndex] = prevRow[pickupAddressIndex];
-                }
-            }
-        }
+  for (const pageIndex of pageIndices) {
+    context.signal?.throwIfAborted();
+    context.report({ retries: context.progress.retries + 1, message: `Re-checking page ${pageIndex + 1}...` });
+    try {
+      pageTrips.set(pageIndex, await extractPages(context, [pageIndex], correctionPrompt, 'correction'));
+    } catch (error) {
+      context.signal?.throwIfAborted();
+      failedPages.push({
+        pageNumber: pageIndex + 1,
+        reason: error instanceof Error ? error.message : 'An unknown error occurred during conversion.',
+      });
     }
+  }
 
-    const processedDataLines = dataRows.map(row => row.join(','));
-    return [csvLines[0], ...processedDataLines];
-};
+  const correctedTrips = [...pageTrips.values()].flat();
+  if (failedPages.length === 0) {
+    const keepChunk = correctedTrips.length === 0
+      || findRetryableIssues(correctedTrips, context.template).length > findRetryableIssues(chunkTrips, context.template).length;
+    return { pageIndices, status: 'corrected', trips: keepChunk ? chunkTrips : correctedTrips, failedPages: [] };
+  }
 
+  // A chunk row that couldn't be placed on one page may belong to a failed page too;
+  // it is kept for the first failed page it covers unless a page that came back has
+  // the same trip
+  const correctedKeys = new Set(correctedTrips.map(readingKey));
+  const failedPageFor = (trip: TripRow) => {
+    const first = trip.source?.firstPage ?? pageIndices[0] + 1;
+    const last = trip.source?.lastPage ?? pageIndices[pageIndices.length - 1] + 1;
+    return failedPages.find(page => page.pageNumber >= first && page.pageNumber <= last)?.pageNumber ?? null;
+  };
+  const fallbackTrips = chunkTrips.filter(trip => !correctedKeys.has(readingKey(trip)));
+
+  return {
+    pageIndices,
+    status: 'failed',
+    trips: pageIndices.flatMap(pageIndex => pageTrips.get(pageIndex)
+      ?? fallbackTrips.filter(trip => failedPageFor(trip) === pageIndex + 1)),
+    failedPages,
+  };
+};
 
+/**
+ * Converts a runsheet PDF to typed trip rows. The runsheet template is chosen or detected
+ * from page one; pages whose text layer matches it are parsed deterministically and
+ * the rest are sent to the extraction backend in chunks, with a prompt built for it.
+ * The result records which method produced each page, and pages that could not be
+ * converted are listed instead of failing the whole run. When `options.signal` aborts,
+ * the chunk in flight is dropped and the result is built from the chunks that finished.
+ */
 export const convertPdfToCsv = async (
-  base64File: string,
+  pdfBytes: Uint8Array,
   mimeType: string,
-  onProgressUpdate: (message: string) => void
-): Promise<string> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API_KEY is not configured in your environment.");
-  }
-  
-  const ai = new GoogleGenAI({ apiKey });
-  
-  onProgressUpdate('Loading PDF...');
-  const pdfBytes = base64ToUint8Array(base64File);
+  onProgress: (progress: ConversionProgress) => void,
+  backend: ExtractionBackend,
+  options: ConversionOptions = {}
+): Promise<ConversionResult> => {
+  const progress: ConversionProgress = {
+    stage: 'loading',
+    message: 'Loading PDF...',
+    chunkIndex: null,
+    chunkCount: 0,
+    pagesDone: 0,
+    pageCount: 0,
+    retries: 0,
+    cacheHits: 0,
+    cacheMisses: 0,
+    template: null,
+    headerDate: null,
+  };
+  const report = (changes: Partial<ConversionProgress>) => {
+    Object.assign(progress, changes);
+    onProgress({ ...progress });
+  };
+
+  report({});
   const pdfDoc = await PDFDocument.load(pdfBytes);
   const pageCount = pdfDoc.getPageCount();
 
@@ -252,53 +544,160 @@ export const convertPdfToCsv = async (
     throw new Error("The PDF file is empty or corrupted.");
   }
 
-  const csvChunkResults: string[] = [];
-
-  for (let i = 0; i < pageCount; i += CHUNK_SIZE) {
-    const startPage = i;
-    const endPage = Math.min(i + CHUNK_SIZE, pageCount);
-    
-    onProgressUpdate(`Processing pages ${startPage + 1}-${endPage} of ${pageCount}...`);
-    
-    const subDocument = await PDFDocument.create();
-    const pageIndices = Array.from({ length: endPage - startPage }, (_, k) => startPage + k);
-    const copiedPages = await subDocument.copyPages(pdfDoc, pageIndices);
-    copiedPages.forEach(page => subDocument.addPage(page));
-    
-    const chunkBytes = await subDocument.save();
-    const chunkBase64 = uint8ArrayToBase64(chunkBytes);
-    
-    const chunkCsv = await callGeminiWithRetry(ai, chunkBase64, mimeType);
-    if (chunkCsv) {
-      csvChunkResults.push(chunkCsv);
-    }
+  report({ stage: 'text-layer', message: 'Reading text layer...', pageCount });
+  let textPages: PageTextRuns[] = [];
+  try {
+    textPages = await extractPageTextRuns(pdfBytes);
+  } catch (error) {
+    console.warn('Could not read the PDF text layer. Falling back to AI extraction for every page.', error);
   }
-  
-  onProgressUpdate('Combining results...');
-  
-  const finalCsvLines: string[] = [];
-  csvChunkResults.forEach((chunkCsv, index) => {
-    const lines = chunkCsv.split('\n').filter(line => line.trim() !== '');
-    if (lines.length === 0) return;
 
-    if (index === 0) {
-      finalCsvLines.push(...lines);
+  // Pages without a text layer give no phrases, so scans keep the default template
+  const { template, detected } = chooseTemplate(
+    options.template,
+    options.templates ?? DEFAULT_TEMPLATES,
+    textPages[0] ? pagePhrases(textPages[0]) : []
+  );
+  report({
+    template: appliedTemplate(template, detected),
+    headerDate: findRunsheetDate(textPages, template),
+    message: `Using the ${template.name} template${detected ? ' (detected from page 1)' : ''}.`,
+  });
+
+  const textLayerRows = new Map<number, TripRow[]>();
+  const textAngles = new Map<number, number | null>();
+  parseRunsheetTextLayer(textPages, template).forEach(page => {
+    if (page.rows) textLayerRows.set(page.pageNumber - 1, page.rows);
+    textAngles.set(page.pageNumber - 1, page.textAngle);
+  });
+
+  const segments: ConvertedSegment[] = [];
+  const { sourceFile } = options;
+  const completeSegment = (finished: ConvertedSegment) => {
+    const segment = sourceFile
+      ? { ...finished, trips: finished.trips.map(trip => (trip.source ? { ...trip, source: { file: sourceFile, ...trip.source } } : trip)) }
+      : finished;
+    segments.push(segment);
+    options.onSegment?.(segment);
+  };
+  const context: ExtractionContext = {
+    template,
+    prompt: buildExtractionPrompt(template),
+    pdfDoc,
+    textPages,
+    mimeType,
+    backend,
+    cache: options.cache ?? null,
+    consensus: options.consensus ?? false,
+    signal: options.signal,
+    progress,
+    report,
+  };
+
+  let cancelled = false;
+  const rotations = new Map<number, number>();
+  const emptyPages = new Set<number>();
+  for (let pageIndex = 0; pageIndex < pageCount && options.checkPages !== false; pageIndex++) {
+    if (textLayerRows.has(pageIndex)) continue;
+    const page = pdfDoc.getPage(pageIndex);
+    const currentRotation = page.getRotation().angle;
+    let turn: number;
+
+    // Text drawn at an angle reads upright once the page is rotated by that angle
+    const textAngle = textAngles.get(pageIndex) ?? null;
+    if (textAngle !== null) {
+      turn = (textAngle - currentRotation + 360) % 360;
     } else {
-      const headerRegex = /^"Date","Run Num"/i;
-      if (headerRegex.test(lines[0])) {
-        finalCsvLines.push(...lines.slice(1));
-      } else {
-        finalCsvLines.push(...lines);
+      report({ stage: 'page-check', message: `Checking page ${pageIndex + 1}...` });
+      let check: PageCheck;
+      try {
+        check = await checkPage(context, pageIndex);
+      } catch {
+        // A page check only throws when the conversion was cancelled
+        cancelled = true;
+        break;
+      }
+      if (check.kind === 'blank') {
+        emptyPages.add(pageIndex);
+        continue;
       }
+      turn = check.rotation;
+    }
+
+    if (turn !== 0) {
+      page.setRotation(degrees((currentRotation + turn) % 360));
+      rotations.set(pageIndex, turn);
+    }
+  }
+
+  const pageSource = (pageIndex: number, method: PageSource['method']): PageSource => {
+    const rotation = rotations.get(pageIndex);
+    return rotation ? { pageNumber: pageIndex + 1, method, rotation } : { pageNumber: pageIndex + 1, method };
+  };
+  if (emptyPages.size > 0) {
+    const pageNumbers = [...emptyPages].map(pageIndex => pageIndex + 1);
+    report({ message: `No usable content on ${pageNumbers.length === 1 ? 'page' : 'pages'} ${pageNumbers.join(', ')}.` });
+    completeSegment({ pages: [...emptyPages].map(pageIndex => pageSource(pageIndex, 'empty')), trips: [], failedPages: [] });
+  }
+
+  // Text-layer pages are already done, so they count before any chunk is sent
+  const plan = planSegments(pageCount, textLayerRows, emptyPages, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+  plan.forEach(segment => {
+    if (segment.method === 'text-layer') {
+      completeSegment({ pages: [pageSource(segment.pageIndex, 'text-layer')], trips: segment.rows, failedPages: [] });
     }
   });
+  const chunks = cancelled ? [] : plan.filter((segment): segment is Extract<PageSegment, { method: 'ai' }> => segment.method === 'ai');
+  report({
+    stage: 'extracting',
+    message: 'Extracting pages...',
+    chunkCount: chunks.length,
+    pagesDone: pageCount - chunks.flatMap(chunk => chunk.pageIndices).length,
+  });
+
+  for (const [index, segment] of chunks.entries()) {
+    const startPage = segment.pageIndices[0];
+    const endPage = segment.pageIndices[segment.pageIndices.length - 1] + 1;
+    if (options.signal?.aborted) {
+      cancelled = true;
+      break;
+    }
+    report({ chunkIndex: index + 1, message: `Processing pages ${startPage + 1}-${endPage} of ${pageCount}...` });
 
-  if (finalCsvLines.length < 2) { // Should have at least a header and one data row
-    throw new Error("Conversion resulted in empty or incomplete data. The PDF might not contain a valid runsheet.");
+    let chunk: ChunkResult;
+    try {
+      chunk = await extractChunk(context, segment.pageIndices);
+    } catch (error) {
+      if (!options.signal?.aborted) throw error;
+      cancelled = true;
+      break;
+    }
+    if (chunk.status !== 'ok') {
+      console.warn(`Pages ${startPage + 1}-${endPage} were re-extracted page by page (${chunk.status}).`);
+    }
+    completeSegment({
+      pages: segment.pageIndices.map(pageIndex => pageSource(pageIndex, 'ai')),
+      trips: chunk.trips,
+      failedPages: chunk.failedPages,
+    });
+    report({ pagesDone: progress.pagesDone + segment.pageIndices.length, message: `Finished pages ${startPage + 1}-${endPage}.` });
+  }
+
+  if (cancelled) {
+    report({ message: 'Cancelled. Keeping the pages that finished...' });
+  } else if (context.cache && progress.cacheHits + progress.cacheMisses > 0) {
+    const { cacheHits: hits, cacheMisses: misses } = progress;
+    report({ message: `Extraction cache: ${hits} ${hits === 1 ? 'hit' : 'hits'}, ${misses} ${misses === 1 ? 'miss' : 'misses'}.` });
   }
-  
-  onProgressUpdate('Applying data corrections...');
-  const correctedCsvLines = applyFillDownLogic(finalCsvLines);
 
-  return correctedCsvLines.join('\n');
-};
\ No newline at end of file
+  return finishConversion(segments, pageCount, cancelled, {
+    template,
+    templateDetected: detected,
+    abbreviations: options.abbreviations,
+    headerDate: progress.headerDate ?? undefined,
+    distanceProvider: options.distanceProvider,
+    // A cancelled run still measures the mileage of the pages it kept
+    signal: cancelled ? undefined : options.signal,
+    onStage: (stage, message) => report({ stage, message, chunkIndex: null }),
+  });
+};
@@ -0,0 +1,142 @@
+import { degrees, PDFDocument } from 'pdf-lib';
+
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png'];
+const IMAGE_EXTENSION_PATTERN = /\.(jpe?g|png)$/i;
+const MAX_PAGE_SIDE = 792; // Fit photos on a letter-sized page
+const TARGET_DPI = 200; // Enough for the model to read small print on a letter-sized page
+const MAX_IMAGE_SIDE = Math.round((MAX_PAGE_SIDE / 72) * TARGET_DPI);
+const JPEG_QUALITY = 0.8;
+
+export interface SourceImage {
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+/**
+ * Scales an image down so neither side is over `maxSide` pixels and re-encodes it as
+ * an upright JPEG. Images already small enough are only re-encoded.
+ */
+export type ImageResizer = (image: SourceImage, maxSide: number) => Promise<SourceImage>;
+
+/** A PDF made from the uploads, with the image files it was built from. */
+export interface UploadDocument {
+  file: File;
+  /** Empty for an uploaded PDF. */
+  images: string[];
+}
+
+export const isImageFile = (file: { name: string; type: string }) =>
+  IMAGE_MIME_TYPES.includes(file.type) || (!file.type && IMAGE_EXTENSION_PATTERN.test(file.name));
+
+/**
+ * Reads the EXIF orientation of a JPEG (1-8), or 1 when there is none. Phone cameras
+ * store the sensor image as-is and record how it must be turned in this tag.
+ */
+export const jpegOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      const tiff = offset + 10;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      const entryCount = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entryCount; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) return view.getUint16(entry + 8, littleEndian);
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // Start of scan: no more metadata
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+/**
+ * Clockwise rotation for an EXIF orientation. Mirrored orientations (2, 4, 5, 7)
+ * are treated as their unmirrored rotation; scanners and cameras don't produce them.
+ */
+const ORIENTATION_ROTATION: Record<number, number> = { 3: 180, 4: 180, 5: 90, 6: 90, 7: 270, 8: 270 };
+
+/**
+ * Resizes with the browser's canvas. createImageBitmap applies the EXIF orientation,
+ * so the JPEG it writes needs no turning; transparent PNG areas become white.
+ */
+export const canvasImageResizer: ImageResizer = async (image, maxSide) => {
+  const bitmap = await createImageBitmap(new Blob([image.bytes.slice()], { type: image.mimeType }), { imageOrientation: 'from-image' });
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+  const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('The browser could not draw the image.');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+  return { bytes: new Uint8Array(await blob.arrayBuffer()), mimeType: 'image/jpeg' };
+};
+
+/**
+ * Builds a PDF with one page per image, in the given order, so photos and scans go
+ * through the same pipeline as PDF runsheets. JPEGs are turned upright according to
+ * their EXIF orientation. The output only depends on the images, so the same photos
+ * always hash the same.
+ * @param images - The pages, in order.
+ * @param resize - Scales each image to about 200 dpi on its page, so phone photos fit
+ * the upload limit. Without one, images are embedded at full resolution.
+ */
+export const imagesToPdf = async (images: SourceImage[], resize?: ImageResizer): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create({ updateMetadata: false });
+
+  for (const source of images) {
+    const image = resize ? await resize(source, MAX_IMAGE_SIDE) : source;
+    const embedded = image.mimeType === 'image/png' ? await pdfDoc.embedPng(image.bytes) : await pdfDoc.embedJpg(image.bytes);
+    const scale = Math.min(1, MAX_PAGE_SIDE / Math.max(embedded.width, embedded.height));
+    const width = embedded.width * scale;
+    const height = embedded.height * scale;
+
+    const page = pdfDoc.addPage([width, height]);
+    page.drawImage(embedded, { x: 0, y: 0, width, height });
+    const rotation = image.mimeType === 'image/png' ? 0 : ORIENTATION_ROTATION[jpegOrientation(image.bytes)] ?? 0;
+    if (rotation) page.setRotation(degrees(rotation));
+  }
+
+  return pdfDoc.save();
+};
+
+const imageMimeType = (file: File) =>
+  IMAGE_MIME_TYPES.includes(file.type) ? file.type : /\.png$/i.test(file.name) ? 'image/png' : 'image/jpeg';
+
+/**
+ * Turns the image files among the uploads into PDFs: all of them into one runsheet,
+ * one page per image in file name order, when `combine` is set, otherwise one PDF
+ * each. Images are scaled down with the browser's canvas first. PDFs are passed
+ * through unchanged.
+ */
+export const imageUploadsToPdfs = async (files: File[], combine: boolean): Promise<UploadDocument[]> => {
+  const pdfs = files.filter(file => !isImageFile(file)).map(file => ({ file, images: [] }));
+  const images = files
+    .filter(isImageFile)
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  const groups = combine && images.length > 0 ? [images] : images.map(image => [image]);
+
+  const converted = await Promise.all(groups.map(async group => {
+    const bytes = await imagesToPdf(await Promise.all(group.map(async file => ({
+      bytes: new Uint8Array(await file.arrayBuffer()),
+      mimeType: imageMimeType(file),
+    }))), canvasImageResizer);
+    const baseName = group[0].name.replace(/\.[^/.]+$/, '');
+    const name = group.length > 1 ? `${baseName} (+${group.length - 1} images).pdf` : `${baseName}.pdf`;
+    // File only accepts views over a plain ArrayBuffer, so copy pdf-lib's output
+    const file = new File([bytes.slice()], name, { type: 'application/pdf' });
+    return { file, images: group.map(image => image.name) };
+  }));
+
+  return [...pdfs, ...converted];
+};
@@ -0,0 +1,144 @@
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { RunReport } from '../types';
+
+const PAGE_WIDTH = 792; // US Letter, landscape
+const PAGE_HEIGHT = 612;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 10;
+const CELL_PADDING = 3;
+
+interface ManifestColumn {
+  header: string;
+  width: number;
+  value: (trip: RunReport['trips'][number], index: number) => string;
+}
+
+const COLUMNS: ManifestColumn[] = [
+  { header: '#', width: 20, value: (_, index) => String(index + 1) },
+  { header: 'Pickup', width: 45, value: trip => trip.pickUpTime },
+  { header: 'Customer', width: 120, value: trip => (trip.customerId ? `${trip.customer} (${trip.customerId})` : trip.customer) },
+  { header: 'Pickup Address', width: 135, value: trip => trip.pickupAddress },
+  { header: 'Dropoff Address', width: 135, value: trip => trip.dropoffAddress },
+  { header: 'Dropoff', width: 45, value: trip => trip.dropoffTime },
+  { header: 'Comments', width: 220, value: trip => trip.comment },
+];
+
+const TYPOGRAPHIC_REPLACEMENTS: [RegExp, string][] = [
+  [/[‘’]/g, "'"],
+  [/[“”]/g, '"'],
+  [/[–—]/g, '-'],
+  [/…/g, '...'],
+];
+
+/**
+ * The standard PDF fonts only cover Latin-1, so typographic punctuation is replaced
+ * with its plain form and anything else outside it with "?".
+ */
+const toLatin1 = (text: string): string => {
+  const plain = TYPOGRAPHIC_REPLACEMENTS.reduce((value, [pattern, replacement]) => value.replace(pattern, replacement), text);
+  return plain.replace(/[\r\n\t]+/g, ' ').replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+};
+
+/**
+ * Breaks text into lines no wider than `width`, between words where possible.
+ */
+const wrapText = (text: string, font: PDFFont, width: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of toLatin1(text).split(' ').filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, FONT_SIZE) <= width) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    // A word wider than the column is split wherever it runs out of room
+    let rest = word;
+    while (font.widthOfTextAtSize(rest, FONT_SIZE) > width && rest.length > 1) {
+      let cut = rest.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), FONT_SIZE) > width) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    line = rest;
+  }
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [''];
+};
+
+const runSummaryLine = (run: RunReport): string => [
+  `${run.trips.length} ${run.trips.length === 1 ? 'trip' : 'trips'}`,
+  `${run.passengerCount} ${run.passengerCount === 1 ? 'passenger' : 'passengers'}`,
+  run.mileage === null ? 'mileage not given' : `mileage ${run.mileage}`,
+  ...(run.shared ? ['shared ride'] : []),
+  ...(run.deviceTrips > 0 ? [`${run.deviceTrips} with a device`] : []),
+  ...(run.supportPersonTrips > 0 ? [`${run.supportPersonTrips} needing a support person`] : []),
+].join(' · ');
+
+/**
+ * Builds a printable manifest with one section per run, each starting on a new page:
+ * the run's figures, then its stops in pickup-time order with their expanded
+ * comments. Long runs continue on further pages under a repeated heading.
+ * @param runs - The runs to include, e.g. from `buildRunReports`.
+ * @param sourceFile - Name of the converted runsheet, printed in each page's footer.
+ */
+export const buildManifestPdf = async (runs: RunReport[], sourceFile?: string): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(runs.length === 1 ? `Run ${runs[0].runNum} manifest` : 'Run manifests');
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const grey = rgb(0.4, 0.4, 0.4);
+
+  let page: PDFPage;
+  let y = 0;
+
+  const drawTableHeader = () => {
+    let x = MARGIN;
+    for (const column of COLUMNS) {
+      page.drawText(column.header, { x: x + CELL_PADDING, y: y - LINE_HEIGHT + 2, size: FONT_SIZE, font: bold });
+      x += column.width;
+    }
+    y -= LINE_HEIGHT + CELL_PADDING;
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.75 });
+  };
+
+  const startPage = (run: RunReport, continued: boolean) => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+    const title = toLatin1(`Run ${run.runNum} - ${run.date}${continued ? ' (continued)' : ''}`);
+    page.drawText(title, { x: MARGIN, y: y - 14, size: 14, font: bold });
+    y -= 14 + 8;
+    page.drawText(toLatin1(runSummaryLine(run)), { x: MARGIN, y: y - FONT_SIZE, size: FONT_SIZE + 1, font, color: grey });
+    y -= FONT_SIZE + 12;
+    drawTableHeader();
+  };
+
+  for (const run of runs) {
+    startPage(run, false);
+    run.trips.forEach((trip, index) => {
+      const cells = COLUMNS.map(column => wrapText(column.value(trip, index), font, column.width - 2 * CELL_PADDING));
+      const rowHeight = Math.max(...cells.map(lines => lines.length)) * LINE_HEIGHT + 2 * CELL_PADDING;
+      if (y - rowHeight < MARGIN + LINE_HEIGHT) startPage(run, true);
+
+      let x = MARGIN;
+      cells.forEach((lines, columnIndex) => {
+        lines.forEach((line, lineIndex) => {
+          page.drawText(line, { x: x + CELL_PADDING, y: y - CELL_PADDING - (lineIndex + 1) * LINE_HEIGHT + 2, size: FONT_SIZE, font });
+        });
+        x += COLUMNS[columnIndex].width;
+      });
+      y -= rowHeight;
+      page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.25, color: grey });
+    });
+  }
+
+  // Footers go on last, once the page count is known
+  const pages = pdf.getPages();
+  pages.forEach((footerPage, index) => {
+    const footer = toLatin1(`${sourceFile ? `${sourceFile} · ` : ''}Page ${index + 1} of ${pages.length}`);
+    footerPage.drawText(footer, { x: MARGIN, y: MARGIN / 2, size: FONT_SIZE - 1, font, color: grey });
+  });
+
+  return pdf.save();
+};
@@ -0,0 +1,220 @@
+import { TripRow } from '../types';
+
+const EARTH_RADIUS_MILES = 3958.8;
+const METERS_PER_MILE = 1609.344;
+const DEFAULT_ROAD_FACTOR = 1.3; // Typical ratio of driving to straight-line distance in a city grid
+const NUMERIC_PATTERN = /^\d+(?:\.\d+)?$/;
+const ROUTE_TIMEOUT_MS = 15_000;
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Address → coordinates, keyed by address as printed after abbreviation expansion
+ * (e.g. "70 LEONARD AVE, TORONTO"). Keys are matched case- and spacing-insensitively.
+ */
+export type GeocodeTable = Record<string, Coordinates>;
+
+export interface Geocoder {
+  readonly name: string;
+  /** Resolves to null when the address isn't known. */
+  geocode(address: string): Promise<Coordinates | null>;
+}
+
+/**
+ * Anything that can measure a driving route. Implementations resolve to null when
+ * a stop can't be located, so the caller leaves the mileage blank rather than guessing,
+ * and reject when the route can't be measured, e.g. because a server is down.
+ */
+export interface DistanceProvider {
+  readonly name: string;
+  routeMiles(stops: string[], signal?: AbortSignal): Promise<number | null>;
+}
+
+export type MileageConfig =
+  | { kind: 'none' }
+  | { kind: 'lookup'; table: GeocodeTable; roadFactor?: number }
+  | { kind: 'osrm'; baseUrl: string; table: GeocodeTable };
+
+/**
+ * Parses a geocode table file: a JSON object mapping each address to
+ * `{ "lat": number, "lon": number }`.
+ */
+export const parseGeocodeTableJson = (json: string): GeocodeTable => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The geocode table is not valid JSON.');
+  }
+
+  const isCoordinates = (value: unknown): value is Coordinates =>
+    !!value && typeof value === 'object' &&
+    typeof (value as Coordinates).lat === 'number' && typeof (value as Coordinates).lon === 'number';
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) || !Object.values(parsed).every(isCoordinates)) {
+    throw new Error('The geocode table must map each address to { "lat": number, "lon": number }.');
+  }
+  return parsed as GeocodeTable;
+};
+
+export const normalizeAddress = (address: string) =>
+  address.toUpperCase().replace(/[.#]/g, '').replace(/\s*,\s*/g, ', ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Looks addresses up in a local table. No network access and no guessing: an
+ * address missing from the table is simply unknown.
+ */
+export const createLookupGeocoder = (table: GeocodeTable): Geocoder => {
+  const entries = new Map(Object.entries(table).map(([address, coordinates]) => [normalizeAddress(address), coordinates]));
+  return {
+    name: 'lookup-table',
+    async geocode(address) {
+      return entries.get(normalizeAddress(address)) ?? null;
+    },
+  };
+};
+
+/**
+ * Great-circle distance between two points, in miles.
+ */
+export const haversineMiles = (from: Coordinates, to: Coordinates): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+};
+
+const geocodeAll = async (geocoder: Geocoder, stops: string[]): Promise<Coordinates[] | null> => {
+  const points = await Promise.all(stops.map(stop => geocoder.geocode(stop)));
+  return points.every((point): point is Coordinates => point !== null) ? points : null;
+};
+
+/**
+ * Estimates driving distance as the straight-line distance between consecutive
+ * stops multiplied by a road factor.
+ */
+export const createStraightLineProvider = (geocoder: Geocoder, roadFactor: number = DEFAULT_ROAD_FACTOR): DistanceProvider => ({
+  name: `straight-line:${geocoder.name}`,
+  async routeMiles(stops) {
+    const points = await geocodeAll(geocoder, stops);
+    if (!points) return null;
+    let miles = 0;
+    for (let i = 1; i < points.length; i++) {
+      miles += haversineMiles(points[i - 1], points[i]);
+    }
+    return miles * roadFactor;
+  },
+});
+
+/**
+ * Measures the driving route with a self-hosted OSRM server
+ * (`/route/v1/driving/...`). Stops are geocoded first with the given geocoder. A
+ * request is given up after ROUTE_TIMEOUT_MS, or as soon as `signal` aborts.
+ */
+export const createOsrmProvider = (baseUrl: string, geocoder: Geocoder): DistanceProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/route/v1/driving`;
+
+  return {
+    name: `osrm:${geocoder.name}`,
+    async routeMiles(stops, signal) {
+      const points = await geocodeAll(geocoder, stops);
+      if (!points) return null;
+
+      const path = points.map(point => `${point.lon},${point.lat}`).join(';');
+      const timeout = AbortSignal.timeout(ROUTE_TIMEOUT_MS);
+      const response = await fetch(`${endpoint}/${path}?overview=false`, {
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+      if (!response.ok) {
+        throw new Error(`Routing server responded with ${response.status}: ${await response.text()}`);
+      }
+      const payload = await response.json();
+      const meters = payload?.routes?.[0]?.distance;
+      return typeof meters === 'number' ? meters / METERS_PER_MILE : null;
+    },
+  };
+};
+
+export const createDistanceProvider = (config: MileageConfig): DistanceProvider | null => {
+  switch (config.kind) {
+    case 'none':
+      return null;
+    case 'lookup':
+      return createStraightLineProvider(createLookupGeocoder(config.table), config.roadFactor);
+    case 'osrm':
+      return createOsrmProvider(config.baseUrl, createLookupGeocoder(config.table));
+  }
+};
+
+/**
+ * The stops of a run in driving order: its distinct pickup addresses in pickup
+ * order, then its distinct dropoff addresses in the order the rows list them.
+ */
+const runStops = (run: TripRow[]): string[] => {
+  const stops: string[] = [];
+  const addStop = (address: string) => {
+    if (address && normalizeAddress(address) !== normalizeAddress(stops[stops.length - 1] ?? '')) stops.push(address);
+  };
+  const pickups = [...new Set(run.map(trip => trip.pickupAddress).filter(Boolean))];
+  const dropoffs = [...new Set(run.map(trip => trip.dropoffAddress).filter(Boolean))];
+  [...pickups, ...dropoffs].forEach(addStop);
+  return stops;
+};
+
+/**
+ * Fills in Mileage for runs where the runsheet gave none, using the distance
+ * provider instead of the model. Every row of such a run gets the same value and
+ * is marked `mileageSource: 'computed'`; rows with a printed mileage are marked
+ * `'extracted'`. Runs whose stops can't all be located stay blank. Runs whose route
+ * can't be measured, or that are left when `signal` aborts, stay blank too and are
+ * marked `'unavailable'`, so one bad lookup doesn't lose the whole conversion.
+ * @param trips - Reconciled trips with abbreviations expanded.
+ * @param provider - Where distances come from; null only marks the extracted values.
+ * @param signal - Stops further lookups and cancels the one in flight.
+ * @returns A copy of the trips with mileage filled in where possible.
+ */
+export const computeMissingMileage = async (
+  trips: TripRow[],
+  provider: DistanceProvider | null,
+  signal?: AbortSignal
+): Promise<TripRow[]> => {
+  const computed = new Map<string, string>();
+  const unavailable = new Set<string>();
+
+  if (provider) {
+    const runs = new Map<string, TripRow[]>();
+    for (const trip of trips) {
+      if (!trip.runNum || NUMERIC_PATTERN.test(trip.mileage)) continue;
+      const key = `${trip.date}|${trip.runNum}`;
+      if (!runs.has(key)) runs.set(key, []);
+      runs.get(key)!.push(trip);
+    }
+
+    for (const [key, run] of runs) {
+      const stops = runStops(run);
+      if (stops.length < 2) continue;
+      if (signal?.aborted) {
+        unavailable.add(key);
+        continue;
+      }
+      try {
+        const miles = await provider.routeMiles(stops, signal);
+        if (miles !== null) computed.set(key, miles.toFixed(1));
+      } catch (error) {
+        console.warn(`Could not compute the mileage of run ${run[0].runNum}; leaving it blank.`, error);
+        unavailable.add(key);
+      }
+    }
+  }
+
+  return trips.map((trip): TripRow => {
+    if (NUMERIC_PATTERN.test(trip.mileage)) return { ...trip, mileageSource: 'extracted' };
+    const key = `${trip.date}|${trip.runNum}`;
+    const mileage = computed.get(key);
+    if (mileage) return { ...trip, mileage, mileageSource: 'computed' };
+    return unavailable.has(key) ? { ...trip, mileageSource: 'unavailable' } : trip;
+  });
+};
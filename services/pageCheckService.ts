@@ -0,0 +1,26 @@
+/**
+ * What the extraction backend reported about a page without a text layer: whether
+ * there is anything to read, and how far it must be turned to read upright.
+ */
+export type PageCheck =
+  | { kind: 'blank' }
+  | { kind: 'content'; rotation: number };
+
+export const PAGE_CHECK_PROMPT = `
+      You are checking one scanned page of a transportation runsheet before its data is extracted.
+
+      Reply with exactly one of the following and nothing else:
+      - BLANK if the page has no readable runsheet content: it is empty, only noise, or too blurry or dark to read.
+      - 0, 90, 180 or 270: the number of degrees the page must be turned clockwise so that its text reads normally, left to right.
+    `;
+
+/**
+ * Reads the backend's answer to PAGE_CHECK_PROMPT. Anything unexpected counts as a
+ * readable, upright page, so a confused answer never drops or turns a page.
+ */
+export const parsePageCheck = (response: string): PageCheck => {
+  const answer = response.replace(/[`"'.]/g, '').trim().toUpperCase();
+  if (answer === 'BLANK') return { kind: 'blank' };
+  const rotation = Number(answer);
+  return { kind: 'content', rotation: [0, 90, 180, 270].includes(rotation) ? rotation : 0 };
+};
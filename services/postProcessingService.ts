@@ -0,0 +1,122 @@
+import { expandCity, expandCommentCodes } from './abbreviationService';
+import { reconcileRuns } from './reconciliationService';
+import { normalizeTripDateTimes } from './dateTimeService';
+import { computeMissingMileage, DistanceProvider } from './mileageService';
+import { appliedTemplate, templateAbbreviations, validateWithTemplate } from './templateService';
+import { AbbreviationDictionary } from '../data/abbreviations';
+import { DEFAULT_TEMPLATES } from '../data/runsheetTemplates';
+import { ConversionResult, ConversionStage, ConvertedSegment, FailedPage, PageSource, RunsheetTemplate, TripRow } from '../types';
+
+export const CANCELLED_PAGE_REASON = 'The conversion was cancelled before this page was converted.';
+
+export interface PostProcessingOptions {
+  /** The layout the runsheet was read with. Defaults to the first built-in template. */
+  template?: RunsheetTemplate;
+  /** Whether the template was detected from page one rather than chosen. */
+  templateDetected?: boolean;
+  /** The user's own abbreviations, layered on the template's dictionary. */
+  abbreviations?: AbbreviationDictionary;
+  /** The date printed at the top of the runsheet as MM/DD/YYYY, when the text layer gives one. */
+  headerDate?: string;
+  distanceProvider?: DistanceProvider | null;
+  /** Stops mileage lookups; runs not yet measured are left blank. */
+  signal?: AbortSignal;
+  /** Called as each step starts. */
+  onStage?: (stage: ConversionStage, message: string) => void;
+}
+
+/**
+ * Expands city and comment abbreviations in code rather than trusting the model to
+ * do it: cities in both address columns, comment codes as whole tokens in Comment.
+ * @param trips - The trips to process.
+ * @param dictionary - The abbreviation dictionary to apply.
+ * @returns The trips with abbreviations expanded.
+ */
+const applyAbbreviationMappings = (trips: TripRow[], dictionary: AbbreviationDictionary): TripRow[] => {
+    return trips.map(trip => ({
+        ...trip,
+        pickupAddress: expandCity(trip.pickupAddress, dictionary.cities),
+        dropoffAddress: expandCity(trip.dropoffAddress, dictionary.cities),
+        comment: expandCommentCodes(trip.comment, dictionary.comments),
+    }));
+};
+
+/**
+ * Turns the converted segments of a document into the final result: trips are
+ * merged in page order, their dates and times normalized, reconciled per run, the
+ * template's abbreviations expanded, missing mileage computed and the rows validated against the template's rules. Used by the server pipeline and by the browser
+ * to finish a cancelled conversion from the segments it had already received.
+ * @param segments - The finished segments, in any order.
+ * @param pageCount - Number of pages in the document.
+ * @param cancelled - Whether the run stopped early; pages no segment covers are then
+ *   reported as failed.
+ * @returns The conversion result.
+ */
+export const finishConversion = async (
+  segments: ConvertedSegment[],
+  pageCount: number,
+  cancelled: boolean,
+  options: PostProcessingOptions = {}
+): Promise<ConversionResult> => {
+  const onStage = options.onStage ?? (() => {});
+  onStage('combining', 'Combining results...');
+
+  const ordered = [...segments].sort((a, b) => a.pages[0].pageNumber - b.pages[0].pageNumber);
+  const trips = ordered.flatMap(segment => segment.trips);
+  const failedPages: FailedPage[] = ordered.flatMap(segment => segment.failedPages);
+
+  // Pages a cancelled run never reached were all meant for the extraction backend
+  const covered = new Map(ordered.flatMap(segment => segment.pages).map(page => [page.pageNumber, page]));
+  const pageSources: PageSource[] = Array.from({ length: pageCount }, (_, index) =>
+    covered.get(index + 1) ?? { pageNumber: index + 1, method: 'ai' });
+  if (cancelled) {
+    pageSources
+      .filter(page => !covered.has(page.pageNumber))
+      .forEach(page => failedPages.push({ pageNumber: page.pageNumber, reason: CANCELLED_PAGE_REASON }));
+    failedPages.sort((a, b) => a.pageNumber - b.pageNumber);
+  }
+  const emptyPages = pageSources.filter(page => page.method === 'empty').map(page => page.pageNumber);
+
+  if (trips.length === 0) {
+    if (cancelled) {
+      throw new Error('The conversion was cancelled before any trips were extracted.');
+    }
+    if (failedPages.length > 0) {
+      throw new Error(failedPages[0].reason);
+    }
+    if (emptyPages.length === pageCount) {
+      throw new Error('No usable content was found: every page looks blank or unreadable. Try a clearer scan or photo.');
+    }
+    throw new Error("Conversion resulted in empty or incomplete data. The PDF might not contain a valid runsheet.");
+  }
+
+  const template = options.template ?? DEFAULT_TEMPLATES[0];
+  onStage('dates', 'Normalizing dates and times...');
+  // Extracted dates are meant to be MM/DD/YYYY already; dotted ones were copied as printed
+  const normalizedTrips = normalizeTripDateTimes(trips, {
+    dateOrders: { slash: 'MDY', dotted: template.dateOrders.dotted },
+    headerDate: options.headerDate,
+  });
+
+  onStage('reconciling', 'Reconciling shared rides...');
+  const { trips: reconciledTrips, report: reconciliation } = reconcileRuns(normalizedTrips);
+
+  onStage('abbreviations', 'Expanding abbreviations...');
+  const expandedTrips = applyAbbreviationMappings(reconciledTrips, templateAbbreviations(template, options.abbreviations));
+
+  onStage('mileage', 'Computing missing mileage...');
+  const correctedTrips = await computeMissingMileage(expandedTrips, options.distanceProvider ?? null, options.signal);
+
+  onStage('validating', 'Validating rows...');
+  const issues = validateWithTemplate(correctedTrips, template, options.abbreviations);
+
+  const result: ConversionResult = {
+    trips: correctedTrips,
+    pageSources,
+    issues,
+    failedPages,
+    reconciliation,
+    template: appliedTemplate(template, options.templateDetected ?? false),
+  };
+  return cancelled ? { ...result, cancelled } : result;
+};
@@ -0,0 +1,175 @@
+import { DuplicateTrip, MileageConflict, ReconciliationReport, TripRow } from '../types';
+import { parseTripDate } from './exportProfileService';
+import { tripTimeline } from './dateTimeService';
+import { TRIP_COLUMNS } from './tripRows';
+
+const NUMERIC_PATTERN = /^\d+(?:\.\d+)?$/;
+
+/**
+ * Programmatically applies fill-down logic to the combined trips.
+ * This ensures shared rides have their pickup info correctly filled,
+ * correcting any misses that happen at the boundaries of page chunks.
+ * @param trips - The trips in document order.
+ * @returns A corrected copy of the trips.
+ */
+export const applyFillDownLogic = (trips: TripRow[]): TripRow[] => {
+    const corrected = trips.map(trip => ({ ...trip }));
+
+    for (let i = 1; i < corrected.length; i++) {
+        const prevTrip = corrected[i - 1];
+        const currentTrip = corrected[i];
+
+        if (currentTrip.runNum && currentTrip.runNum === prevTrip.runNum) {
+            if (!currentTrip.pickUpTime || !currentTrip.pickupAddress) {
+                currentTrip.pickUpTime = prevTrip.pickUpTime;
+                currentTrip.pickupAddress = prevTrip.pickupAddress;
+            }
+        }
+    }
+
+    return corrected;
+};
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toUpperCase();
+
+const runKey = (trip: TripRow) => `${trip.date}|${trip.runNum}`;
+
+/**
+ * Two rows describe the same trip when they share the date, run, passenger
+ * (by ID, or by name when the ID is missing) and both addresses.
+ */
+const tripKey = (trip: TripRow) => [
+  runKey(trip),
+  normalize(trip.customerId || trip.customer),
+  normalize(trip.pickupAddress),
+  normalize(trip.dropoffAddress),
+].join('|');
+
+/**
+ * Groups trips by date and Run Num, keeping groups in order of first appearance
+ * and rows within a group in document order. Rows without a Run Num are returned
+ * separately, untouched.
+ */
+const groupByRun = (trips: TripRow[]): { runs: TripRow[][]; unassigned: TripRow[] } => {
+  const runs = new Map<string, TripRow[]>();
+  const unassigned: TripRow[] = [];
+  for (const trip of trips) {
+    if (!trip.runNum) {
+      unassigned.push(trip);
+      continue;
+    }
+    const key = runKey(trip);
+    if (!runs.has(key)) runs.set(key, []);
+    runs.get(key)!.push(trip);
+  }
+  return { runs: [...runs.values()], unassigned };
+};
+
+/**
+ * Keeps the first copy of each trip. Blank fields of the kept copy are filled from
+ * the dropped one, and its page range is widened to cover both.
+ */
+const removeDuplicates = (trips: TripRow[], removed: DuplicateTrip[]): TripRow[] => {
+  const kept = new Map<string, TripRow>();
+  for (const trip of trips) {
+    const key = tripKey(trip);
+    const existing = kept.get(key);
+    if (!existing) {
+      kept.set(key, { ...trip });
+      continue;
+    }
+
+    for (const { key } of TRIP_COLUMNS) {
+      if (!existing[key] && trip[key]) existing[key] = trip[key];
+    }
+    if (existing.source && trip.source) {
+      const firstPage = Math.min(existing.source.firstPage, trip.source.firstPage);
+      const lastPage = Math.max(existing.source.lastPage, trip.source.lastPage);
+      // The kept row's region only still applies when the duplicate was on the same page
+      if (firstPage !== existing.source.firstPage || lastPage !== existing.source.lastPage) {
+        existing.source = { ...(existing.source.file ? { file: existing.source.file } : {}), firstPage, lastPage };
+      }
+    }
+    removed.push({ date: trip.date, runNum: trip.runNum, customer: trip.customer, customerId: trip.customerId });
+  }
+  return [...kept.values()];
+};
+
+/**
+ * Gives every row of a run the same Mileage. A shared ride has one odometer
+ * reading, so:
+ * - when the run's numeric values all agree, rows with no mileage receive it;
+ * - when they differ, the most common numeric value wins, and a tie goes to the
+ *   value seen first in the document. The disagreement is recorded as a conflict;
+ * - non-numeric values never win, but are overwritten (and reported) when the run
+ *   has a numeric value;
+ * - a run with no numeric value at all is left as it is.
+ */
+const unifyMileage = (run: TripRow[], conflicts: MileageConflict[]): TripRow[] => {
+  const counts = new Map<string, number>();
+  for (const trip of run) {
+    if (NUMERIC_PATTERN.test(trip.mileage)) counts.set(trip.mileage, (counts.get(trip.mileage) ?? 0) + 1);
+  }
+  if (counts.size === 0) return run;
+
+  // Map iteration follows insertion order, so the first maximum is the first seen
+  let chosen = '';
+  let best = 0;
+  for (const [value, count] of counts) {
+    if (count > best) {
+      chosen = value;
+      best = count;
+    }
+  }
+
+  const values = [...new Set(run.map(trip => trip.mileage).filter(Boolean))];
+  if (values.length > 1) {
+    const isTie = [...counts.values()].filter(count => count === best).length > 1;
+    conflicts.push({ date: run[0].date, runNum: run[0].runNum, values, chosen, rule: isTie ? 'first-seen' : 'majority' });
+  }
+
+  return run.map(trip => ({ ...trip, mileage: chosen }));
+};
+
+/**
+ * A run's trips by pickup time, counting pickups after midnight as the next day;
+ * unreadable times sort after readable ones. Array.prototype.sort is stable, so
+ * equal pickup times keep document order.
+ */
+const inPickupOrder = (run: TripRow[]): TripRow[] => {
+  const timeline = tripTimeline(run);
+  const pickup = (index: number) => timeline[index].pickup ?? Number.POSITIVE_INFINITY;
+  return run.map((_, index) => index).sort((a, b) => pickup(a) - pickup(b)).map(index => run[index]);
+};
+
+const sortableDate = (value: string) => {
+  const date = parseTripDate(value);
+  return date ? `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}` : value;
+};
+
+const compareRuns = (a: TripRow[], b: TripRow[]) =>
+  sortableDate(a[0].date).localeCompare(sortableDate(b[0].date))
+  || a[0].runNum.localeCompare(b[0].runNum, undefined, { numeric: true });
+
+/**
+ * Reconciles shared rides across the whole document rather than only between
+ * adjacent rows. Rows are grouped by date and Run Num, pickup details are filled
+ * down within each run, repeated trips are removed, Mileage is unified per run and
+ * the result is ordered by run and then pickup time. Rows without a Run Num come
+ * last, in document order.
+ * @param trips - The merged trips in document order.
+ * @returns The reconciled trips and a report of what was changed.
+ */
+export const reconcileRuns = (trips: TripRow[]): { trips: TripRow[]; report: ReconciliationReport } => {
+  const report: ReconciliationReport = { mileageConflicts: [], duplicatesRemoved: [] };
+  const { runs, unassigned } = groupByRun(trips);
+
+  const reconciled = runs
+    .map(run => applyFillDownLogic(run))
+    .map(run => removeDuplicates(run, report.duplicatesRemoved))
+    .map(run => unifyMileage(run, report.mileageConflicts))
+    .map(inPickupOrder)
+    .sort(compareRuns);
+
+  return { trips: [...reconciled.flat(), ...unassigned], report };
+};
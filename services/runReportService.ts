@@ -0,0 +1,97 @@
+import { AbbreviationDictionary } from '../data/abbreviations';
+import { commentMentions } from './abbreviationService';
+import { tripTimeline } from './dateTimeService';
+import { DailySummary, RunReport, TripRow } from '../types';
+
+const NUMERIC_PATTERN = /^\d+(?:\.\d+)?$/;
+
+/** Comment codes that mean the customer must travel with a support person or escort. */
+export const SUPPORT_PERSON_CODES = ['MAND.ESC', 'MSP'];
+
+/**
+ * The value of a " / Label: value" part of a Comment, as the prompt and the text-layer
+ * parser write it, or null when the part is missing or empty.
+ */
+const commentPart = (comment: string, label: string): string | null => {
+  const match = comment.match(new RegExp(`${label}:\\s*([^/]*)`));
+  return match?.[1].trim() || null;
+};
+
+/** The accessibility device from the Dev. column, expanded when it was a code. */
+export const tripDevice = (trip: TripRow): string | null => commentPart(trip.comment, 'Device');
+
+/** The Nb. value; a trip without a readable one counts as one passenger. */
+export const tripPassengers = (trip: TripRow): number => {
+  const value = commentPart(trip.comment, 'Passengers');
+  return value && NUMERIC_PATTERN.test(value) ? Number(value) : 1;
+};
+
+/**
+ * Whether the comment carries a support person code, either as printed or as the
+ * dictionary expanded it.
+ */
+export const needsSupportPerson = (trip: TripRow, dictionary: AbbreviationDictionary): boolean => {
+  const phrases = SUPPORT_PERSON_CODES.flatMap(code => [code, dictionary.comments[code]]).filter(Boolean);
+  return phrases.some(phrase => commentMentions(trip.comment, phrase));
+};
+
+/**
+ * A run's trips by pickup time, counting pickups after midnight as the next day.
+ * Array.prototype.sort is stable, so trips picked up together keep document order.
+ */
+const inPickupOrder = (trips: TripRow[]): TripRow[] => {
+  const timeline = tripTimeline(trips);
+  const pickup = (index: number) => timeline[index].pickup ?? Number.POSITIVE_INFINITY;
+  return trips.map((_, index) => index).sort((a, b) => pickup(a) - pickup(b)).map(index => trips[index]);
+};
+
+const sumMileage = (runs: RunReport[]) => Math.round(runs.reduce((sum, run) => sum + (run.mileage ?? 0), 0) * 100) / 100;
+
+/**
+ * Groups trips by date and run, in the order runs first appear, and works out each
+ * run's figures. A run's Mileage is reconciled to one value per run, so it is
+ * taken from its first numeric row.
+ */
+export const buildRunReports = (trips: TripRow[], dictionary: AbbreviationDictionary): RunReport[] => {
+  const runs = new Map<string, TripRow[]>();
+  for (const trip of trips) {
+    const key = `${trip.date}|${trip.runNum}`;
+    runs.set(key, [...(runs.get(key) ?? []), trip]);
+  }
+
+  return [...runs.values()].map(runTrips => {
+    const mileage = runTrips.find(trip => NUMERIC_PATTERN.test(trip.mileage))?.mileage;
+    return {
+      date: runTrips[0].date,
+      runNum: runTrips[0].runNum,
+      trips: inPickupOrder(runTrips),
+      passengerCount: runTrips.reduce((sum, trip) => sum + tripPassengers(trip), 0),
+      mileage: mileage === undefined ? null : Number(mileage),
+      shared: runTrips.length > 1,
+      deviceTrips: runTrips.filter(trip => tripDevice(trip) !== null).length,
+      supportPersonTrips: runTrips.filter(trip => needsSupportPerson(trip, dictionary)).length,
+    };
+  });
+};
+
+/**
+ * The daily summary for each date on the runsheet, in the order dates first appear.
+ */
+export const summarizeDays = (trips: TripRow[], dictionary: AbbreviationDictionary): DailySummary[] => {
+  const days = new Map<string, RunReport[]>();
+  for (const run of buildRunReports(trips, dictionary)) {
+    days.set(run.date, [...(days.get(run.date) ?? []), run]);
+  }
+
+  return [...days].map(([date, runs]) => ({
+    date,
+    runs,
+    tripCount: runs.reduce((sum, run) => sum + run.trips.length, 0),
+    passengerCount: runs.reduce((sum, run) => sum + run.passengerCount, 0),
+    totalMileage: sumMileage(runs),
+    sharedRideMileage: sumMileage(runs.filter(run => run.shared)),
+    runsWithoutMileage: runs.filter(run => run.mileage === null).length,
+    deviceTrips: runs.reduce((sum, run) => sum + run.deviceTrips, 0),
+    supportPersonTrips: runs.reduce((sum, run) => sum + run.supportPersonTrips, 0),
+  }));
+};
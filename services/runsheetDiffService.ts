@@ -0,0 +1,67 @@
+import { TRIP_COLUMNS } from './tripRows';
+import { serializeCsv } from '../utils/csvUtils';
+import { FieldChange, RunsheetDiff, TripRow } from '../types';
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toUpperCase();
+
+/**
+ * Identifies a trip across revisions of a runsheet: its run and passenger, by ID or
+ * by name when the ID is missing.
+ */
+const diffKey = (trip: TripRow) => `${normalize(trip.runNum)}|${normalize(trip.customerId) || normalize(trip.customer)}`;
+
+const fieldChanges = (previous: TripRow, revised: TripRow): FieldChange[] => TRIP_COLUMNS
+  .filter(({ key }) => normalize(previous[key]) !== normalize(revised[key]))
+  .map(({ key }) => ({ field: key, previous: previous[key], revised: revised[key] }));
+
+/**
+ * Compares a revised runsheet's trips with an earlier conversion's. Trips are matched
+ * on Run Num and Customer ID; a passenger listed twice on one run is matched in
+ * order. Differences in spacing and letter case don't count as changes.
+ */
+export const diffRunsheets = (previousTrips: TripRow[], revisedTrips: TripRow[]): RunsheetDiff => {
+  const unmatched = new Map<string, TripRow[]>();
+  previousTrips.forEach(trip => unmatched.set(diffKey(trip), [...(unmatched.get(diffKey(trip)) ?? []), trip]));
+
+  const diff: RunsheetDiff = { added: [], removed: [], changed: [], unchangedCount: 0 };
+  for (const revised of revisedTrips) {
+    const previous = unmatched.get(diffKey(revised))?.shift();
+    if (!previous) {
+      diff.added.push(revised);
+      continue;
+    }
+    const changes = fieldChanges(previous, revised);
+    if (changes.length > 0) {
+      diff.changed.push({ previous, revised, changes });
+    } else {
+      diff.unchangedCount++;
+    }
+  }
+
+  const stillUnmatched = new Set([...unmatched.values()].flat());
+  diff.removed = previousTrips.filter(trip => stillUnmatched.has(trip));
+  return diff;
+};
+
+const columnHeader = (field: FieldChange['field']) => TRIP_COLUMNS.find(column => column.key === field)!.header;
+
+/**
+ * The change CSV: one record per changed, added and removed trip, in that order.
+ * Each record has the trip's ten columns (the earlier values for a removed trip),
+ * then the changed columns and their earlier values.
+ */
+export const runsheetDiffCsv = (diff: RunsheetDiff): string => {
+  const record = (change: string, trip: TripRow, changes: FieldChange[] = []) => [
+    change,
+    ...TRIP_COLUMNS.map(column => trip[column.key]),
+    changes.map(c => columnHeader(c.field)).join('; '),
+    changes.map(c => `${columnHeader(c.field)}: ${c.previous}`).join('; '),
+  ];
+
+  return serializeCsv([
+    ['Change', ...TRIP_COLUMNS.map(column => column.header), 'Changed Fields', 'Previous Values'],
+    ...diff.changed.map(({ revised, changes }) => record('changed', revised, changes)),
+    ...diff.added.map(trip => record('added', trip)),
+    ...diff.removed.map(trip => record('removed', trip)),
+  ]);
+};
@@ -0,0 +1,215 @@
+import { AbbreviationDictionary } from '../data/abbreviations';
+import { DEFAULT_TEMPLATES } from '../data/runsheetTemplates';
+import { mergeAbbreviations, toAbbreviationDictionary } from './abbreviationService';
+import { validateTrips, VALIDATION_RULE_LABELS } from './validationService';
+import { AppliedTemplate, DateOrder, RunsheetTemplate, TemplateColumn, TripRow, ValidationIssue, ValidationRule } from '../types';
+
+/**
+ * Every column a template can name, with the label shown in the settings panel.
+ */
+export const TEMPLATE_COLUMNS: { key: TemplateColumn; label: string }[] = [
+  { key: 'runNum', label: 'Run Num' },
+  { key: 'pickupTime', label: 'Pick Up Time' },
+  { key: 'customer', label: 'Customer' },
+  { key: 'customerId', label: 'Customer ID' },
+  { key: 'pickupAddress', label: 'Pickup Address' },
+  { key: 'dropoffAddress', label: 'Dropoff Address' },
+  { key: 'dropoffTime', label: 'Dropoff Time' },
+  { key: 'passengers', label: 'Passengers' },
+  { key: 'device', label: 'Device' },
+  { key: 'dropoffComments', label: 'Dropoff Comments' },
+  { key: 'mileage', label: 'Mileage' },
+];
+
+const DATE_ORDERS: DateOrder[] = ['MDY', 'DMY'];
+
+/**
+ * Lowercases heading text and turns the punctuation . _ : into spaces, so "Nb." and
+ * "NB", or "Drop_Off_Comments" and "Drop Off Comments", match. The text-layer parser
+ * reads headings in this form too. Kept here rather than in the parser so the
+ * browser can use templates without loading pdf.js.
+ */
+export const normalizeHeading = (text: string) => text.toLowerCase().replace(/[._:]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * How well page one fits a template: one point per column whose heading appears and
+ * per marker found, minus one per column the template expects but the page lacks, so
+ * a layout with extra columns doesn't win on a page that only has the common ones.
+ */
+const templateScore = (phrases: string[], template: RunsheetTemplate): number => {
+  const found = new Set(phrases);
+  const columns = Object.values(template.headings);
+  const matched = columns.filter(headings => headings.some(heading => found.has(normalizeHeading(heading)))).length;
+  const markers = (template.markers ?? [])
+    .filter(marker => phrases.some(phrase => phrase.includes(normalizeHeading(marker))))
+    .length;
+  return matched - (columns.length - matched) + markers;
+};
+
+/**
+ * Picks the template that best fits the phrases on page one (see `pagePhrases`).
+ * Ties go to the template listed first.
+ * @returns The template, or null when none fits, e.g. for a scan without a text layer.
+ */
+export const detectTemplate = (phrases: string[], templates: RunsheetTemplate[]): RunsheetTemplate | null => {
+  let best: RunsheetTemplate | null = null;
+  let bestScore = 0;
+  for (const template of templates) {
+    const score = templateScore(phrases, template);
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * The template to convert with: the chosen one, else the best fit among the
+ * candidates, else the first built-in template.
+ */
+export const chooseTemplate = (
+  chosen: RunsheetTemplate | undefined,
+  candidates: RunsheetTemplate[],
+  firstPagePhrases: string[]
+): { template: RunsheetTemplate; detected: boolean } => {
+  if (chosen) return { template: chosen, detected: false };
+  const detected = detectTemplate(firstPagePhrases, candidates);
+  return detected ? { template: detected, detected: true } : { template: DEFAULT_TEMPLATES[0], detected: false };
+};
+
+export const appliedTemplate = (template: RunsheetTemplate, detected: boolean): AppliedTemplate => ({
+  id: template.id,
+  name: template.name,
+  detected,
+});
+
+export const findTemplate = (id: string | undefined, templates: RunsheetTemplate[]): RunsheetTemplate | undefined => {
+  return templates.find(template => template.id === id);
+};
+
+/**
+ * The template a result was converted with. Results from before templates existed,
+ * or whose custom template was deleted since, fall back to the first built-in one.
+ */
+export const templateForResult = (template: AppliedTemplate | undefined, templates: RunsheetTemplate[]): RunsheetTemplate => {
+  return findTemplate(template?.id, templates) ?? DEFAULT_TEMPLATES[0];
+};
+
+/**
+ * The template's dictionary with the user's own abbreviations layered on top.
+ */
+export const templateAbbreviations = (template: RunsheetTemplate, overrides?: AbbreviationDictionary): AbbreviationDictionary => {
+  return overrides ? mergeAbbreviations(overrides, template.abbreviations) : template.abbreviations;
+};
+
+/**
+ * Checks trips against the template's rules, treating its city codes (and the
+ * user's) as codes that should have been expanded.
+ */
+export const validateWithTemplate = (
+  trips: TripRow[],
+  template: RunsheetTemplate,
+  overrides?: AbbreviationDictionary
+): ValidationIssue[] => {
+  return validateTrips(trips, templateAbbreviations(template, overrides).cities, template.rules);
+};
+
+/**
+ * Rules added after templates could first be saved. Saved templates record the rules
+ * that existed when they were written in `knownRules`; one without it predates these.
+ */
+const RULES_ADDED_LATER: ValidationRule[] = ['date-readable', 'time-readable'];
+
+const allRules = () => Object.keys(VALIDATION_RULE_LABELS) as ValidationRule[];
+
+const isStringList = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+};
+
+/**
+ * Checks one parsed template. Throws with a message naming the template and what is
+ * wrong with it.
+ */
+const toTemplate = (value: unknown): RunsheetTemplate => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Each runsheet template must be an object.');
+  }
+  const template = value as Record<string, unknown>;
+  if (typeof template.id !== 'string' || !template.id || typeof template.name !== 'string' || !template.name) {
+    throw new Error('Each runsheet template needs an id and a name.');
+  }
+  const fail: (problem: string) => never = problem => {
+    throw new Error(`Runsheet template "${template.name}": ${problem}`);
+  };
+
+  const headings = template.headings as Record<string, unknown> | undefined;
+  if (!headings || typeof headings !== 'object' || Array.isArray(headings)) {
+    fail('headings must map each column to the headings it is printed with.');
+  }
+  Object.entries(headings).forEach(([column, list]) => {
+    if (!TEMPLATE_COLUMNS.some(known => known.key === column)) fail(`"${column}" is not a known column.`);
+    if (!isStringList(list) || list.length === 0) fail(`the headings for ${column} must be a non-empty list of text.`);
+  });
+  if (template.markers !== undefined && !isStringList(template.markers)) {
+    fail('markers must be a list of text.');
+  }
+
+  const dateOrders = template.dateOrders as Record<string, unknown> | undefined;
+  if (!dateOrders || !DATE_ORDERS.includes(dateOrders.slash as DateOrder) || !DATE_ORDERS.includes(dateOrders.dotted as DateOrder)) {
+    fail('dateOrders needs "slash" and "dotted", each MDY or DMY.');
+  }
+
+  const rules = template.rules;
+  if (!isStringList(rules) || !rules.every(rule => rule in VALIDATION_RULE_LABELS)) {
+    fail(`rules must be a list of: ${Object.keys(VALIDATION_RULE_LABELS).join(', ')}.`);
+  }
+  if (template.knownRules !== undefined && !isStringList(template.knownRules)) {
+    fail('knownRules must be a list of rules.');
+  }
+  // Rules added since the template was saved are on, as they are for the built-in ones
+  const knownRules = (template.knownRules as string[] | undefined) ?? allRules().filter(rule => !RULES_ADDED_LATER.includes(rule));
+  const addedRules = allRules().filter(rule => !knownRules.includes(rule) && !rules.includes(rule));
+  if (template.notes !== undefined && typeof template.notes !== 'string') {
+    fail('notes must be text.');
+  }
+
+  let abbreviations: AbbreviationDictionary;
+  try {
+    abbreviations = toAbbreviationDictionary(template.abbreviations);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'invalid abbreviations.');
+  }
+
+  return {
+    id: template.id,
+    name: template.name,
+    headings: headings as RunsheetTemplate['headings'],
+    ...(template.markers ? { markers: template.markers as string[] } : {}),
+    abbreviations,
+    dateOrders: { slash: dateOrders.slash as DateOrder, dotted: dateOrders.dotted as DateOrder },
+    rules: [...rules as ValidationRule[], ...addedRules],
+    ...(template.notes ? { notes: template.notes as string } : {}),
+  };
+};
+
+/**
+ * Parses a JSON list of runsheet templates (or a single template), as exported from
+ * the settings panel or posted alongside an upload.
+ */
+export const parseRunsheetTemplatesJson = (json: string): RunsheetTemplate[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The runsheet template file is not valid JSON.');
+  }
+  return (Array.isArray(parsed) ? parsed : [parsed]).map(toTemplate);
+};
+
+/**
+ * Writes templates as JSON for storage, export or upload, noting the rules that exist
+ * now so rules added later can be turned on when they are read back.
+ */
+export const runsheetTemplatesToJson = (templates: RunsheetTemplate[], indent?: number): string =>
+  JSON.stringify(templates.map(template => ({ ...template, knownRules: allRules() })), null, indent);
@@ -0,0 +1,324 @@
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { normalizeHeading } from './templateService';
+import { DateOrder, RunsheetTemplate, TemplateColumn, TextRegion, TripRow } from '../types';
+
+const LINE_TOLERANCE = 3; // Text runs whose baselines differ by less than this share a line
+const PHRASE_GAP = 4; // Runs closer than this on the same line form one header phrase
+const COLUMN_SLACK = 6; // Cell text may start slightly left of its header
+
+/**
+ * A piece of text from the PDF text layer with its position in page units.
+ * `y` grows upwards, as in PDF space.
+ */
+export interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  /** Font height; the text extends this far above the baseline `y`. */
+  height: number;
+}
+
+export interface PageTextRuns {
+  pageNumber: number;
+  runs: TextRun[];
+  /**
+   * Direction most of the text runs in, counter-clockwise from the page's x-axis and
+   * rounded to 0, 90, 180 or 270. Null for pages without text, such as scans.
+   */
+  textAngle: number | null;
+}
+
+const REQUIRED_COLUMNS: TemplateColumn[] = ['runNum', 'customer', 'customerId', 'pickupAddress', 'dropoffAddress'];
+
+const DATE_PATTERN = /\b(\d{1,2})([/.-])(\d{1,2})\2(\d{2,4})\b/;
+const TIME_PATTERN = /\b\d{1,2}:\d{2}(?:\s?[AaPp][Mm])?\b/;
+
+interface Column {
+  key: TemplateColumn;
+  x: number;
+}
+
+interface Line {
+  y: number;
+  runs: TextRun[];
+}
+
+type ParsedTrip = Partial<Record<TemplateColumn, string[]>>;
+
+/**
+ * The outcome of reading a single page from its text layer. `rows` is `null` when
+ * the layout wasn't recognized.
+ */
+export interface TextLayerPageResult {
+  pageNumber: number;
+  rows: TripRow[] | null;
+  textAngle: number | null;
+}
+
+export const extractPageTextRuns = async (pdfBytes: Uint8Array): Promise<PageTextRuns[]> => {
+  // pdf.js takes ownership of the buffer it is given, so hand it a copy
+  const pdf = await getDocument({ data: pdfBytes.slice(), useSystemFonts: true }).promise;
+  const pages: PageTextRuns[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const runs: TextRun[] = [];
+      const charactersByAngle = new Map<number, number>();
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        runs.push({ text: item.str.trim(), x: item.transform[4], y: item.transform[5], width: item.width, height: item.height });
+        const [a, b] = item.transform;
+        const angle = (Math.round(Math.atan2(b, a) / (Math.PI / 2)) * 90 + 360) % 360;
+        charactersByAngle.set(angle, (charactersByAngle.get(angle) ?? 0) + item.str.trim().length);
+      }
+      const [textAngle] = [...charactersByAngle].sort((x, y) => y[1] - x[1])[0] ?? [null];
+      pages.push({ pageNumber, runs, textAngle });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
+
+const groupIntoLines = (runs: TextRun[]): Line[] => {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Line[] = [];
+  for (const run of sorted) {
+    const line = lines.find(l => Math.abs(l.y - run.y) < LINE_TOLERANCE);
+    if (line) {
+      line.runs.push(run);
+    } else {
+      lines.push({ y: run.y, runs: [run] });
+    }
+  }
+  lines.forEach(line => line.runs.sort((a, b) => a.x - b.x));
+  return lines;
+};
+
+/**
+ * Joins neighbouring runs on a line into phrases, so a heading split into
+ * "Pick Up" and "Time" by the PDF generator is still matched as one label.
+ */
+const toPhrases = (line: Line): TextRun[] => {
+  const phrases: TextRun[] = [];
+  for (const run of line.runs) {
+    const last = phrases[phrases.length - 1];
+    if (last && run.x - (last.x + last.width) < PHRASE_GAP) {
+      last.text = `${last.text} ${run.text}`;
+      last.width = run.x + run.width - last.x;
+    } else {
+      phrases.push({ ...run });
+    }
+  }
+  return phrases;
+};
+
+/**
+ * The template's headings in the form they are matched in.
+ */
+const normalizedHeadings = (template: RunsheetTemplate) => (Object.entries(template.headings) as [TemplateColumn, string[]][])
+  .map(([key, headings]) => ({ key, headings: headings.map(normalizeHeading) }));
+
+const findHeader = (lines: Line[], template: RunsheetTemplate): { index: number; columns: Column[] } | null => {
+  const headings = normalizedHeadings(template);
+  for (let i = 0; i < lines.length; i++) {
+    const columns: Column[] = [];
+    for (const phrase of toPhrases(lines[i])) {
+      const heading = normalizeHeading(phrase.text);
+      const key = headings.find(h => h.headings.includes(heading) && !columns.some(c => c.key === h.key))?.key;
+      if (key) columns.push({ key, x: phrase.x });
+    }
+    if (REQUIRED_COLUMNS.every(key => columns.some(c => c.key === key))) {
+      return { index: i, columns: columns.sort((a, b) => a.x - b.x) };
+    }
+  }
+  return null;
+};
+
+const columnForRun = (run: TextRun, columns: Column[]): TemplateColumn => {
+  let match = columns[0];
+  for (const column of columns) {
+    if (column.x - COLUMN_SLACK <= run.x) match = column;
+  }
+  return match.key;
+};
+
+/**
+ * Finds the runsheet date in the text above the table and writes it as MM/DD/YYYY.
+ * The template says which number is the month, separately for dotted dates
+ * (e.g. "02.10.25") and slash or dash dates (e.g. "10/2/2025"); when that would give
+ * a thirteenth month the other order is the only possible reading.
+ */
+const findPageDate = (lines: Line[], dateOrders: RunsheetTemplate['dateOrders']): string | null => {
+  for (const line of lines) {
+    const match = line.runs.map(r => r.text).join(' ').match(DATE_PATTERN);
+    if (!match) continue;
+    const [, first, separator, second, rawYear] = match;
+    const order: DateOrder = separator === '.' ? dateOrders.dotted : dateOrders.slash;
+    let [month, day] = order === 'DMY' ? [second, first] : [first, second];
+    if (Number(month) > 12 && Number(day) <= 12) [month, day] = [day, month];
+    const year = rawYear.length === 2 ? `20${rawYear}` : rawYear;
+    return `${month.padStart(2, '0')}/${day.padStart(2, '0')}/${year}`;
+  }
+  return null;
+};
+
+/**
+ * The smallest rectangle around the given runs, rounded out to whole points.
+ */
+const regionAround = (runs: TextRun[]): TextRegion => {
+  const left = Math.floor(Math.min(...runs.map(run => run.x)));
+  const bottom = Math.floor(Math.min(...runs.map(run => run.y)));
+  const right = Math.ceil(Math.max(...runs.map(run => run.x + run.width)));
+  const top = Math.ceil(Math.max(...runs.map(run => run.y + run.height)));
+  return { x: left, y: bottom, width: right - left, height: top - bottom };
+};
+
+const cell = (trip: ParsedTrip, key: TemplateColumn, separator = ' ') => (trip[key] ?? []).join(separator).trim();
+
+const buildComment = (trip: ParsedTrip): string => {
+  let pickup = 'Pickup Comments: ';
+  const passengers = cell(trip, 'passengers');
+  const device = cell(trip, 'device');
+  if (passengers) pickup += ` / Passengers: ${passengers}`;
+  if (device) pickup += ` / Device: ${device}`;
+  return `${pickup} / Dropoff Comments: ${cell(trip, 'dropoffComments', ' / ')}`.trim();
+};
+
+const toTripRow = (trip: ParsedTrip, date: string): TripRow => {
+  let dropoffAddress = cell(trip, 'dropoffAddress');
+  let dropoffTime = cell(trip, 'dropoffTime');
+  if (!dropoffTime) {
+    // Some layouts print the dropoff time beside the address instead of in its own column
+    const time = dropoffAddress.match(TIME_PATTERN);
+    if (time) {
+      dropoffTime = time[0];
+      dropoffAddress = dropoffAddress.replace(time[0], '').trim();
+    }
+  }
+
+  return {
+    date,
+    runNum: cell(trip, 'runNum'),
+    pickUpTime: cell(trip, 'pickupTime'),
+    customer: cell(trip, 'customer'),
+    customerId: cell(trip, 'customerId'),
+    pickupAddress: cell(trip, 'pickupAddress'),
+    dropoffAddress,
+    dropoffTime,
+    comment: buildComment(trip),
+    mileage: cell(trip, 'mileage'),
+  };
+};
+
+/**
+ * Reads one page's trips from its positioned text. Cells are assigned to columns by
+ * the x-coordinate of the heading above them; a new trip starts on every line that
+ * has text in the Run Num or ID column, and the lines below it continue that trip
+ * (wrapped addresses, multi-line comments).
+ */
+export const parseRunsheetPage = (
+  page: PageTextRuns,
+  fallbackDate: string | null,
+  template: RunsheetTemplate
+): { rows: TripRow[]; date: string } | null => {
+  const lines = groupIntoLines(page.runs);
+  const header = findHeader(lines, template);
+  if (!header) return null;
+
+  const date = findPageDate(lines.slice(0, header.index), template.dateOrders) ?? fallbackDate;
+  if (!date) return null;
+
+  // Each trip keeps the runs it was read from, for its source region
+  const trips: { cells: ParsedTrip; runs: TextRun[] }[] = [];
+  for (const line of lines.slice(header.index + 1)) {
+    const cells: ParsedTrip = {};
+    for (const run of line.runs) {
+      const key = columnForRun(run, header.columns);
+      (cells[key] ??= []).push(run.text);
+    }
+
+    const startsTrip = Boolean(cells.runNum?.length || cells.customerId?.length);
+    const current = trips[trips.length - 1];
+    if (startsTrip || !current) {
+      trips.push({ cells, runs: [...line.runs] });
+    } else {
+      for (const [key, values] of Object.entries(cells) as [TemplateColumn, string[]][]) {
+        (current.cells[key] ??= []).push(...values);
+      }
+      current.runs.push(...line.runs);
+    }
+  }
+
+  const validTrips = trips.filter(trip => cell(trip.cells, 'customerId') || cell(trip.cells, 'customer'));
+  if (validTrips.length === 0) return null;
+
+  return {
+    rows: validTrips.map(trip => ({
+      ...toTripRow(trip.cells, date),
+      source: { firstPage: page.pageNumber, lastPage: page.pageNumber, region: regionAround(trip.runs) },
+    })),
+    date,
+  };
+};
+
+/**
+ * Finds the line a trip was printed on among pages that have a text layer, by its
+ * Customer ID appearing as a word on the line. Used for trips the AI read from a
+ * chunk, which otherwise only narrow down to the chunk's pages.
+ * @returns The page and line, or null when the ID is blank or isn't printed on
+ * exactly one line of these pages.
+ */
+export const locateTrip = (trip: TripRow, pages: PageTextRuns[]): { pageNumber: number; region: TextRegion } | null => {
+  const customerId = trip.customerId.trim().toLowerCase();
+  if (!customerId) return null;
+
+  const matches = pages.flatMap(page => groupIntoLines(page.runs)
+    .filter(line => line.runs.some(run => run.text.toLowerCase().split(/\s+/).includes(customerId)))
+    .map(line => ({ pageNumber: page.pageNumber, region: regionAround(line.runs) })));
+  return matches.length === 1 ? matches[0] : null;
+};
+
+/**
+ * The runsheet's date as printed above the template's table, as MM/DD/YYYY, from the
+ * first page that gives one. Pages without the table are skipped, so a date in a trip
+ * row is never taken for it. Scans without a text layer have none.
+ */
+export const findRunsheetDate = (pages: PageTextRuns[], template: RunsheetTemplate): string | null => {
+  for (const page of pages) {
+    const lines = groupIntoLines(page.runs);
+    const header = findHeader(lines, template);
+    if (!header) continue;
+    const date = findPageDate(lines.slice(0, header.index), template.dateOrders);
+    if (date) return date;
+  }
+  return null;
+};
+
+/**
+ * Every phrase on a page in the form headings are matched in, for telling which
+ * template the page was printed from.
+ */
+export const pagePhrases = (page: PageTextRuns): string[] => {
+  return groupIntoLines(page.runs).flatMap(line => toPhrases(line).map(phrase => normalizeHeading(phrase.text)));
+};
+
+/**
+ * Runs the deterministic parser over every page of a PDF, read with
+ * `extractPageTextRuns`. Pages whose layout doesn't match the template come back
+ * with `rows: null` so the caller can send them to the AI path.
+ */
+export const parseRunsheetTextLayer = (pages: PageTextRuns[], template: RunsheetTemplate): TextLayerPageResult[] => {
+  let lastDate: string | null = null;
+
+  return pages.map(page => {
+    const parsed = parseRunsheetPage(page, lastDate, template);
+    if (!parsed) return { pageNumber: page.pageNumber, rows: null, textAngle: page.textAngle };
+    lastDate = parsed.date;
+    return { pageNumber: page.pageNumber, rows: parsed.rows, textAngle: page.textAngle };
+  });
+};
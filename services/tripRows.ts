@@ -0,0 +1,75 @@
+import { TripField, TripRow } from '../types';
+import { parseCsv, serializeCsv } from '../utils/csvUtils';
+
+/**
+ * The output columns in order, with the header text used in the CSV.
+ */
+export const TRIP_COLUMNS: { key: TripField; header: string }[] = [
+  { key: 'date', header: 'Date' },
+  { key: 'runNum', header: 'Run Num' },
+  { key: 'pickUpTime', header: 'Pick Up Time' },
+  { key: 'customer', header: 'Customer' },
+  { key: 'customerId', header: 'Customer ID' },
+  { key: 'pickupAddress', header: 'Pickup Address' },
+  { key: 'dropoffAddress', header: 'Dropoff Address' },
+  { key: 'dropoffTime', header: 'Dropoff Time' },
+  { key: 'comment', header: 'Comment' },
+  { key: 'mileage', header: 'Mileage' },
+];
+
+export const createEmptyTripRow = (): TripRow => ({
+  date: '',
+  runNum: '',
+  pickUpTime: '',
+  customer: '',
+  customerId: '',
+  pickupAddress: '',
+  dropoffAddress: '',
+  dropoffTime: '',
+  comment: '',
+  mileage: '',
+});
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase();
+
+const isHeaderRecord = (record: string[]) =>
+  normalizeHeader(record[0] ?? '') === 'date' && normalizeHeader(record[1] ?? '') === 'run num';
+
+/**
+ * Reads trips from CSV text such as a model response. When the text starts with a
+ * header row, columns are matched by name, so a reordered or partial header still
+ * lands each value in the right field; otherwise the standard column order is assumed.
+ * Records whose fields are all blank, and header rows repeated further down (one per
+ * page in some responses), are dropped.
+ */
+export const csvToTripRows = (csvText: string): TripRow[] => {
+  const records = parseCsv(csvText);
+  if (records.length === 0) return [];
+
+  let keys: (TripField | undefined)[] = TRIP_COLUMNS.map(column => column.key);
+  if (isHeaderRecord(records[0])) {
+    keys = records[0].map(name => TRIP_COLUMNS.find(column => normalizeHeader(column.header) === normalizeHeader(name))?.key);
+    records.shift();
+  }
+
+  return records
+    .filter(record => record.some(value => value.trim() !== '') && !isHeaderRecord(record))
+    .map(record => {
+      const trip = createEmptyTripRow();
+      record.forEach((value, index) => {
+        const key = keys[index];
+        if (key) trip[key] = value.trim();
+      });
+      return trip;
+    });
+};
+
+/**
+ * Serializes trips to CSV with the standard header row.
+ */
+export const tripRowsToCsv = (trips: TripRow[]): string => {
+  return serializeCsv([
+    TRIP_COLUMNS.map(column => column.header),
+    ...trips.map(trip => TRIP_COLUMNS.map(column => trip[column.key])),
+  ]);
+};
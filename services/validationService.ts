@@ -0,0 +1,111 @@
+import { AbbreviationMap, DEFAULT_ABBREVIATIONS } from '../data/abbreviations';
+import { findCityAbbreviation } from './abbreviationService';
+import { parseTripDate, parseTripTime } from './exportProfileService';
+import { TripField, TripRow, ValidationIssue, ValidationRule } from '../types';
+
+const NUMERIC_PATTERN = /^\d+(?:\.\d+)?$/;
+
+export const VALIDATION_RULE_LABELS: Record<ValidationRule, string> = {
+  'customer-id-required': 'Customer ID missing',
+  'dropoff-address-required': 'Dropoff Address missing',
+  'dropoff-time-required': 'Dropoff Time missing',
+  'mileage-numeric': 'Mileage missing or not a number',
+  'mileage-consistent-in-run': 'Mileage differs within a run',
+  'city-abbreviation-remaining': 'City abbreviation not expanded',
+  'mileage-computed': 'Mileage computed, not extracted',
+  'date-readable': 'Date not readable or ambiguous',
+  'time-readable': 'Time not readable',
+};
+
+/**
+ * Rules that flag a value for review without making the row wrong. They are
+ * listed in the report but don't fail a conversion.
+ */
+export const ADVISORY_RULES: ValidationRule[] = ['mileage-computed'];
+
+/**
+ * Checks the merged trips against the prompt's integrity rules. Rows without a
+ * Customer are not trips and are skipped, as in the prompt.
+ * @param trips - The merged, post-processed trips.
+ * @param cities - City codes that must not remain in the address columns.
+ * @param rules - The rules to check, from the runsheet template. Defaults to all of them.
+ * @returns Every violation found, ordered by row.
+ */
+export const validateTrips = (
+  trips: TripRow[],
+  cities: AbbreviationMap = DEFAULT_ABBREVIATIONS.cities,
+  rules?: ValidationRule[]
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  const mileagesByRun = new Map<string, Set<string>>();
+  trips.forEach(trip => {
+    if (!trip.customer || !trip.runNum || !trip.mileage) return;
+    if (!mileagesByRun.has(trip.runNum)) mileagesByRun.set(trip.runNum, new Set());
+    mileagesByRun.get(trip.runNum)!.add(trip.mileage);
+  });
+
+  const dateKey = (date: { year: number; month: number; day: number }) => `${date.year}-${date.month}-${date.day}`;
+  const dateCounts = new Map<string, number>();
+  trips.forEach(trip => {
+    const date = trip.customer ? parseTripDate(trip.date) : null;
+    if (date) dateCounts.set(dateKey(date), (dateCounts.get(dateKey(date)) ?? 0) + 1);
+  });
+
+  trips.forEach((trip, rowIndex) => {
+    if (!trip.customer) return;
+
+    const report = (rule: ValidationRule, field: TripField, message: string) => {
+      if (rules && !rules.includes(rule)) return;
+      issues.push({ rowIndex, rule, field, message });
+    };
+
+    // Dates and times have been normalized, so any left in another form couldn't be read
+    const date = trip.date ? parseTripDate(trip.date) : null;
+    if (trip.date && !date) {
+      report('date-readable', 'date', `Date "${trip.date}" could not be read as a date.`);
+    }
+    // Day and month are only swapped back against a clear runsheet date, so a row that
+    // other rows give the other way round is left for review
+    const swapped = date && date.day <= 12 && date.day !== date.month ? { ...date, month: date.day, day: date.month } : null;
+    if (date && swapped && (dateCounts.get(dateKey(swapped)) ?? 0) >= dateCounts.get(dateKey(date))!) {
+      report('date-readable', 'date', `Date "${trip.date}" may have its day and month swapped: other rows have them the other way round.`);
+    }
+    (['pickUpTime', 'dropoffTime'] as const).forEach(field => {
+      if (trip[field] && !parseTripTime(trip[field])) {
+        report('time-readable', field, `"${trip[field]}" could not be read as a time.`);
+      }
+    });
+
+    if (!trip.customerId) {
+      report('customer-id-required', 'customerId', `${trip.customer} has no Customer ID.`);
+    }
+    if (!trip.dropoffAddress) {
+      report('dropoff-address-required', 'dropoffAddress', `${trip.customer} has no Dropoff Address.`);
+    }
+    if (!trip.dropoffTime) {
+      report('dropoff-time-required', 'dropoffTime', `${trip.customer} has no Dropoff Time.`);
+    }
+
+    if (!NUMERIC_PATTERN.test(trip.mileage)) {
+      report('mileage-numeric', 'mileage', trip.mileage
+        ? `Mileage "${trip.mileage}" is not a number.`
+        : trip.mileageSource === 'unavailable' ? 'Mileage is missing and could not be computed from the addresses.' : 'Mileage is missing.');
+    } else if (trip.mileageSource === 'computed') {
+      report('mileage-computed', 'mileage', `Mileage ${trip.mileage} was computed from the addresses, not read from the runsheet.`);
+    }
+    const runMileages = mileagesByRun.get(trip.runNum);
+    if (runMileages && runMileages.size > 1) {
+      report('mileage-consistent-in-run', 'mileage', `Run ${trip.runNum} has different mileages: ${[...runMileages].join(', ')}.`);
+    }
+
+    (['pickupAddress', 'dropoffAddress'] as const).forEach(field => {
+      const match = findCityAbbreviation(trip[field], cities);
+      if (match) {
+        report('city-abbreviation-remaining', field, `City code "${match.code}" was not expanded.`);
+      }
+    });
+  });
+
+  return issues;
+};
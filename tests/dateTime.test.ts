@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeTripDateTimes, parseRunsheetDate, parseRunsheetTime, tripTimeline } from '../services/dateTimeService';
+import { reconcileRuns } from '../services/reconciliationService';
+import { validateTrips } from '../services/validationService';
+import { createEmptyTripRow } from '../services/tripRows';
+import { TripRow } from '../types';
+
+const dateOrders = { slash: 'MDY', dotted: 'DMY' } as const;
+const runsheetDate = { year: 2025, month: 10, day: 2 };
+
+test('reads the date and time styles found on runsheets', () => {
+  for (const value of ['10/2/2025', '02.10.25', '2025-10-02', 'Thursday, October 2, 2025', 'jeudi 2 octobre', '02-Oct', '2/10/2025']) {
+    assert.deepEqual(parseRunsheetDate(value, dateOrders, { date: runsheetDate, trusted: true }), runsheetDate, value);
+  }
+  assert.deepEqual(parseRunsheetDate('Jan 1', dateOrders, { date: { year: 2025, month: 12, day: 31 }, trusted: true }), { year: 2026, month: 1, day: 1 });
+  assert.deepEqual(parseRunsheetDate('13/10/2025', dateOrders), { year: 2025, month: 10, day: 13 }, 'only one order gives a valid month');
+  assert.equal(parseRunsheetDate('10/2', dateOrders), null, 'no year and nothing to take it from');
+  assert.equal(parseRunsheetDate('31/31/2025', dateOrders), null);
+
+  const times = ['9:5a', '09.05 p.m.', '9h05', '905', '9 PM', '12:00 AM', '24:00'].map(value => parseRunsheetTime(value));
+  assert.deepEqual(times.map(time => time && [time.hours, time.minutes]), [[9, 5], [21, 5], [9, 5], [9, 5], [21, 0], [0, 0], [0, 0]]);
+  for (const value of ['9', '25:00', '13:00 PM', '1O:45']) {
+    assert.equal(parseRunsheetTime(value), null, value);
+  }
+});
+
+test('normalizes dates and times and leaves what it cannot read for validation to flag', () => {
+  const trip = (date: string, pickUpTime: string, dropoffTime: string): TripRow => ({
+    ...createEmptyTripRow(),
+    date,
+    runNum: 'R1',
+    customer: 'ADA LOVELACE',
+    customerId: '1001',
+    dropoffAddress: '5 PIPPIN PL, ETOBICOKE',
+    mileage: '4',
+    pickUpTime,
+    dropoffTime,
+  });
+  const trips = normalizeTripDateTimes([
+    trip('10/02/2025', '8:40 PM', '9:05'),
+    trip('02/10/2025', '23:50', '0:20'),
+    trip('Oct 2', '10:15', '1O:45'),
+  ], { dateOrders, headerDate: '10/02/2025' });
+
+  assert.deepEqual(trips.map(t => [t.date, t.pickUpTime, t.dropoffTime]), [
+    ['10/02/2025', '20:40', '21:05'],
+    ['10/02/2025', '23:50', '00:20'],
+    ['10/02/2025', '10:15', '1O:45'],
+  ]);
+  assert.deepEqual(validateTrips(trips).map(issue => [issue.rowIndex, issue.rule, issue.field]), [[2, 'time-readable', 'dropoffTime']]);
+
+  const formatted = normalizeTripDateTimes(trips.slice(0, 1), { dateOrders, dateFormat: 'YYYY-MM-DD', timeFormat: 'h:mm A' });
+  assert.deepEqual([formatted[0].date, formatted[0].pickUpTime], ['2025-10-02', '8:40 PM']);
+});
+
+test('only swaps a day and month back against the header date or a clear majority', () => {
+  const trip = (date: string): TripRow => ({
+    ...createEmptyTripRow(),
+    date,
+    runNum: 'R1',
+    customer: 'ADA LOVELACE',
+    customerId: '1001',
+    dropoffAddress: '5 PIPPIN PL, ETOBICOKE',
+    mileage: '4',
+    dropoffTime: '09:00',
+  });
+  // One row each way round: neither is clear, whichever comes first
+  const dates = [trip('02/10/2025'), trip('10/02/2025')];
+
+  const unclear = normalizeTripDateTimes(dates, { dateOrders });
+  assert.deepEqual(unclear.map(t => t.date), ['02/10/2025', '10/02/2025'], 'a wrong first row rewrites nothing');
+  assert.deepEqual(validateTrips(unclear).map(issue => [issue.rowIndex, issue.rule]), [[0, 'date-readable'], [1, 'date-readable']]);
+
+  const fromHeader = normalizeTripDateTimes(dates, { dateOrders, headerDate: '10/02/2025' });
+  assert.deepEqual(fromHeader.map(t => t.date), ['10/02/2025', '10/02/2025']);
+  assert.deepEqual(validateTrips(fromHeader), []);
+
+  const fromMajority = normalizeTripDateTimes([trip('02/10/2025'), trip('10/02/2025'), trip('02.10.25')], { dateOrders });
+  assert.deepEqual(fromMajority.map(t => t.date), ['10/02/2025', '10/02/2025', '10/02/2025'], 'a two-digit year counts too');
+});
+
+test('places pickups and dropoffs after midnight on the next day', () => {
+  const trip = (pickUpTime: string, dropoffTime: string): TripRow => ({
+    ...createEmptyTripRow(),
+    runNum: 'R1',
+    customer: `CUSTOMER ${pickUpTime}`,
+    pickupAddress: `${pickUpTime.replace(':', '')} YONGE ST, TORONTO`,
+    pickUpTime,
+    dropoffTime,
+  });
+  assert.deepEqual(tripTimeline([trip('23:30', '23:55'), trip('23:50', '00:20'), trip('00:10', '00:40')]), [
+    { pickup: 1410, dropoff: 1435 },
+    { pickup: 1430, dropoff: 1460 },
+    { pickup: 1450, dropoff: 1480 },
+  ]);
+
+  const { trips } = reconcileRuns([trip('23:30', '23:55'), trip('00:10', '00:40'), trip('23:50', '00:20')]);
+  assert.deepEqual(trips.map(t => t.pickUpTime), ['23:30', '23:50', '00:10'], 'runs are ordered past midnight too');
+});
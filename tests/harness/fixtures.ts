@@ -0,0 +1,92 @@
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { convertPdfToCsv } from '../../services/geminiService';
+import { ExtractionBackend } from '../../services/extractionBackend';
+import { findTemplate } from '../../services/templateService';
+import { DEFAULT_TEMPLATES } from '../../data/runsheetTemplates';
+import { ConversionResult } from '../../types';
+import { Recording } from './replayBackend';
+
+export const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'fixtures');
+
+/**
+ * `fixture.json`: what a fixture covers and how it is converted.
+ */
+export interface FixtureSpec {
+  description: string;
+  /** Pages per model request. Defaults to the pipeline's own default. */
+  chunkSize?: number;
+  /** A built-in template id. Omit to detect the template as the app does. */
+  template?: string;
+  /** Converts in consensus mode; the second reading is recorded under `consensus`. */
+  consensus?: boolean;
+  /** Pages the conversion is expected to report as failed. */
+  failedPages?: number[];
+  /**
+   * For synthetic fixtures, the lines of text on each page; `generateFixtures.ts`
+   * draws runsheet.pdf from them. Cells of a line separated by tabs are drawn at the
+   * x-positions in `columns`, so a page can carry a table the text layer recognizes.
+   */
+  pages?: string[][];
+  columns?: number[];
+}
+
+/**
+ * One directory under tests/fixtures: runsheet.pdf, fixture.json, the recorded
+ * model responses in responses.json and the golden rows in expected.csv.
+ */
+export interface Fixture {
+  name: string;
+  dir: string;
+  spec: FixtureSpec;
+  pdfBytes: Uint8Array;
+  recording: Recording;
+}
+
+export const listFixtures = async (): Promise<string[]> => {
+  const entries = await readdir(FIXTURES_DIR, { withFileTypes: true });
+  return entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+};
+
+const readJson = async <T>(filePath: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+};
+
+export const loadFixtureSpec = (name: string): Promise<FixtureSpec> => {
+  return readJson<FixtureSpec>(path.join(FIXTURES_DIR, name, 'fixture.json'), { description: name });
+};
+
+export const loadFixture = async (name: string): Promise<Fixture> => {
+  const dir = path.join(FIXTURES_DIR, name);
+  return {
+    name,
+    dir,
+    spec: await loadFixtureSpec(name),
+    pdfBytes: new Uint8Array(await readFile(path.join(dir, 'runsheet.pdf'))),
+    recording: await readJson<Recording>(path.join(dir, 'responses.json'), {}),
+  };
+};
+
+/**
+ * Converts a fixture the way the server does, without a cache or distance provider
+ * so the result depends only on the PDF and the backend's answers.
+ */
+export const convertFixture = async (fixture: Fixture, backend: ExtractionBackend): Promise<ConversionResult> => {
+  const template = fixture.spec.template ? findTemplate(fixture.spec.template, DEFAULT_TEMPLATES) : undefined;
+  if (fixture.spec.template && !template) {
+    throw new Error(`Fixture ${fixture.name} names an unknown template "${fixture.spec.template}".`);
+  }
+  return convertPdfToCsv(fixture.pdfBytes, 'application/pdf', () => {}, backend, {
+    template,
+    chunkSize: fixture.spec.chunkSize,
+    consensus: fixture.spec.consensus,
+    distanceProvider: null,
+    cache: null,
+  });
+};
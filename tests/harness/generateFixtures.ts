@@ -0,0 +1,46 @@
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { FIXTURES_DIR, FixtureSpec, listFixtures, loadFixtureSpec } from './fixtures';
+
+const PAGE_SIZE: [number, number] = [792, 612]; // US Letter, landscape
+const FONT_SIZE = 7;
+const LINE_HEIGHT = 14;
+const MARGIN = 20;
+
+/**
+ * Draws a synthetic runsheet from a fixture's `pages`. The output is the same on
+ * every run, so regenerating doesn't invalidate recorded responses.
+ */
+const drawRunsheet = async (spec: FixtureSpec): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  for (const lines of spec.pages ?? []) {
+    const page = doc.addPage(PAGE_SIZE);
+    lines.forEach((line, index) => {
+      const y = PAGE_SIZE[1] - MARGIN - index * LINE_HEIGHT;
+      line.split('\t').forEach((cell, column) => {
+        if (cell) page.drawText(cell, { x: spec.columns?.[column] ?? MARGIN, y, size: FONT_SIZE, font });
+      });
+    });
+  }
+  return doc.save();
+};
+
+/**
+ * Rebuilds runsheet.pdf for every fixture that describes its pages in fixture.json.
+ * Fixtures made from real PDFs are left alone.
+ */
+const main = async () => {
+  for (const name of await listFixtures()) {
+    const spec = await loadFixtureSpec(name);
+    if (!spec.pages) continue;
+    await writeFile(path.join(FIXTURES_DIR, name, 'runsheet.pdf'), await drawRunsheet(spec));
+    console.log(`Wrote ${name}/runsheet.pdf (${spec.pages.length} pages)`);
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,58 @@
+import { readFile, writeFile } from 'fs/promises';
+import { parseCsv, serializeCsv } from '../../utils/csvUtils';
+import { DEFAULT_EXPORT_PROFILES } from '../../data/exportProfiles';
+import { profileRecords } from '../../services/exportProfileService';
+import { ExportProfile, TripRow } from '../../types';
+
+/** Set UPDATE_GOLDEN=1 to rewrite the golden CSVs from the current output. */
+export const isUpdatingGolden = () => process.env.UPDATE_GOLDEN === '1';
+
+/**
+ * The standard ten columns, then the page and text region each trip was read from
+ * and, for consensus fixtures, its confidence.
+ */
+const GOLDEN_PROFILE: ExportProfile = {
+  ...DEFAULT_EXPORT_PROFILES[0],
+  columns: [...DEFAULT_EXPORT_PROFILES[0].columns, { field: 'sourcePage' }, { field: 'sourceRegion' }, { field: 'confidence' }],
+};
+
+const goldenRecords = (trips: TripRow[]) => profileRecords(trips, GOLDEN_PROFILE);
+
+/**
+ * Compares trips with a golden CSV in the layout of `GOLDEN_PROFILE`, field by field.
+ * @returns One line per difference, naming the row, the column and both values;
+ *   empty when they match.
+ */
+export const diffTripsWithCsv = (trips: TripRow[], goldenCsv: string): string[] => {
+  const [header = [], ...expected] = parseCsv(goldenCsv);
+  const [goldenHeader, ...actual] = goldenRecords(trips);
+  if (header.join('|') !== goldenHeader.join('|')) {
+    return [`The golden CSV's header is "${header.join(',')}", expected "${goldenHeader.join(',')}".`];
+  }
+
+  const differences: string[] = [];
+  for (let row = 0; row < Math.max(actual.length, expected.length); row++) {
+    if (!actual[row] || !expected[row]) {
+      const present = actual[row] ?? expected[row];
+      differences.push(`Row ${row + 1} (${present[1]} ${present[3]}) is ${actual[row] ? 'unexpected' : 'missing'}.`);
+      continue;
+    }
+    goldenHeader.forEach((column, index) => {
+      if (actual[row][index] !== expected[row][index]) {
+        differences.push(`Row ${row + 1}, ${column}: expected "${expected[row][index]}", got "${actual[row][index]}".`);
+      }
+    });
+  }
+  return differences;
+};
+
+/**
+ * Diffs trips against the golden CSV file, or rewrites it when updating.
+ */
+export const compareWithGolden = async (trips: TripRow[], goldenPath: string): Promise<string[]> => {
+  if (isUpdatingGolden()) {
+    await writeFile(goldenPath, serializeCsv(goldenRecords(trips)) + '\r\n');
+    return [];
+  }
+  return diffTripsWithCsv(trips, await readFile(goldenPath, 'utf8'));
+};
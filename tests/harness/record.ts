@@ -0,0 +1,33 @@
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import { createExtractionBackend } from '../../services/extractionBackend';
+import { loadBackendConfigFromEnv } from '../../services/backendConfig';
+import { convertFixture, listFixtures, loadFixture } from './fixtures';
+import { createRecordingBackend, Recording } from './replayBackend';
+
+/**
+ * Converts the named fixtures (or all of them) with the real backend configured in
+ * the environment and saves its responses as the fixtures' responses.json. Review
+ * the recorded CSV, then run `UPDATE_GOLDEN=1 npm test` if expected.csv should change.
+ */
+const main = async () => {
+  const names = process.argv.length > 2 ? process.argv.slice(2) : await listFixtures();
+  const backend = createExtractionBackend(await loadBackendConfigFromEnv());
+
+  for (const name of names) {
+    const fixture = await loadFixture(name);
+    const recording: Recording = {};
+    try {
+      await convertFixture(fixture, await createRecordingBackend(fixture.pdfBytes, backend, recording));
+    } catch (error) {
+      console.warn(`${name}: the conversion failed, keeping what was recorded.`, error);
+    }
+    await writeFile(path.join(fixture.dir, 'responses.json'), JSON.stringify(recording, null, 2) + '\n');
+    console.log(`Recorded ${name}`);
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,109 @@
+import { PDFArray, PDFDocument, PDFPage, PDFRawStream } from 'pdf-lib';
+import { ExtractionBackend, ExtractionRequest } from '../../services/extractionBackend';
+
+type Purpose = NonNullable<ExtractionRequest['purpose']>;
+
+/**
+ * Model responses recorded for one fixture, by purpose and then by the pages the
+ * request covered: "1-2" for a chunk of pages 1 and 2, "3" for page 3 alone, and
+ * "1,3" when an empty page was skipped in between. `errors` holds requests that are
+ * to fail, with the error message, keyed the same way.
+ */
+export type Recording = Partial<Record<Purpose, Record<string, string>>> & {
+  errors?: Partial<Record<Purpose, Record<string, string>>>;
+};
+
+export const pageKey = (pageNumbers: number[]): string => {
+  const isRange = pageNumbers.every((page, index) => index === 0 || page === pageNumbers[index - 1] + 1);
+  if (pageNumbers.length === 1) return String(pageNumbers[0]);
+  return isRange ? `${pageNumbers[0]}-${pageNumbers[pageNumbers.length - 1]}` : pageNumbers.join(',');
+};
+
+/**
+ * The page's content streams as they are stored. Copying pages into a chunk keeps
+ * them byte for byte, so they identify which source page a chunk page came from.
+ */
+const pageFingerprint = (page: PDFPage): string => {
+  const contents = page.node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(ref => page.doc.context.lookup(ref))
+    : [contents];
+  return streams
+    .map(stream => (stream instanceof PDFRawStream ? Buffer.from(stream.contents).toString('base64') : ''))
+    .join('|');
+};
+
+/**
+ * Maps the pages of a chunk sent to the backend back to page numbers of the source
+ * PDF. Throws when a page doesn't match any source page, e.g. because two source
+ * pages are identical or the chunk wasn't cut from this PDF.
+ */
+export const createPageIdentifier = async (sourcePdf: Uint8Array) => {
+  const source = await PDFDocument.load(sourcePdf);
+  const pageNumbers = new Map<string, number>();
+  source.getPages().forEach((page, index) => pageNumbers.set(pageFingerprint(page), index + 1));
+
+  return async (base64Chunk: string): Promise<number[]> => {
+    const chunk = await PDFDocument.load(Buffer.from(base64Chunk, 'base64'));
+    return chunk.getPages().map((page, index) => {
+      const pageNumber = pageNumbers.get(pageFingerprint(page));
+      if (pageNumber === undefined) throw new Error(`Page ${index + 1} of a chunk doesn't match any page of the fixture PDF.`);
+      return pageNumber;
+    });
+  };
+};
+
+export interface ReplayBackend extends ExtractionBackend {
+  /** Requests that had no recorded response, as "purpose pages". */
+  readonly missing: string[];
+}
+
+/**
+ * A fake model that answers each request with the response recorded for the same
+ * pages and purpose, so a fixture converts the same way on every run regardless of
+ * the prompt. Requests recorded under `errors` fail with their message. Unrecorded
+ * page checks are answered with an upright page; any other unrecorded request fails
+ * like a model error and is listed in `missing`.
+ */
+export const createReplayBackend = async (sourcePdf: Uint8Array, recording: Recording): Promise<ReplayBackend> => {
+  const identifyPages = await createPageIdentifier(sourcePdf);
+  const missing: string[] = [];
+
+  return {
+    name: 'replay',
+    missing,
+    async extract({ base64Data, signal, purpose = 'trips' }) {
+      signal?.throwIfAborted();
+      const key = pageKey(await identifyPages(base64Data));
+      const response = recording[purpose]?.[key];
+      if (response !== undefined) return response;
+      const error = recording.errors?.[purpose]?.[key];
+      if (error !== undefined) throw new Error(error);
+      if (purpose === 'page-check') return '0';
+      missing.push(`${purpose} ${key}`);
+      throw new Error(`No recorded ${purpose} response for pages ${key}.`);
+    },
+  };
+};
+
+/**
+ * Wraps a real backend and keeps each response it gives in `recording`, for
+ * `npm run test:record`.
+ */
+export const createRecordingBackend = async (
+  sourcePdf: Uint8Array,
+  backend: ExtractionBackend,
+  recording: Recording
+): Promise<ExtractionBackend> => {
+  const identifyPages = await createPageIdentifier(sourcePdf);
+
+  return {
+    name: backend.name,
+    async extract(request) {
+      const response = await backend.extract(request);
+      const purpose = request.purpose ?? 'trips';
+      (recording[purpose] ??= {})[pageKey(await identifyPages(request.base64Data))] = response;
+      return response;
+    },
+  };
+};
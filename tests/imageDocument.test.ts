@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import jpeg from 'jpeg-js';
+import { PDFDocument } from 'pdf-lib';
+import { ImageResizer, imagesToPdf, SourceImage } from '../services/imageDocumentService';
+import { MAX_UPLOAD_BYTES } from '../services/convertApi';
+
+// A phone photo of a printed page: lines of text on paper, with sensor noise
+const photo = (width: number, height: number): SourceImage => {
+  const data = new Uint8Array(width * height * 4);
+  let seed = 1;
+  const noise = () => ((seed = (seed * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff) * 30 - 15;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = (y % 60 < 6 && x % 300 < 240 ? 60 : 235) + noise();
+      data.set([value, value, value - 5, 255], (y * width + x) * 4);
+    }
+  }
+  return { bytes: new Uint8Array(jpeg.encode({ data, width, height }, 90).data), mimeType: 'image/jpeg' };
+};
+
+// Stands in for the browser's canvas: nearest-pixel scaling, written at quality 80
+const resizer: ImageResizer = async (image, maxSide) => {
+  const source = jpeg.decode(image.bytes, { useTArray: true });
+  const scale = Math.min(1, maxSide / Math.max(source.width, source.height));
+  const width = Math.round(source.width * scale);
+  const height = Math.round(source.height * scale);
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const from = (Math.floor(y / scale) * source.width + Math.floor(x / scale)) * 4;
+      data.set(source.data.subarray(from, from + 4), (y * width + x) * 4);
+    }
+  }
+  return { bytes: new Uint8Array(jpeg.encode({ data, width, height }, 80).data), mimeType: 'image/jpeg' };
+};
+
+test('scales combined phone photos down to fit the upload limit', async () => {
+  const page = photo(2400, 3200);
+  const photos = [page, page, page];
+  assert.ok(photos.reduce((sum, image) => sum + image.bytes.length, 0) > MAX_UPLOAD_BYTES, 'the photos alone are over the limit');
+
+  const pdfBytes = await imagesToPdf(photos, resizer);
+  assert.ok(pdfBytes.length < MAX_UPLOAD_BYTES, `${pdfBytes.length} bytes`);
+
+  const pdf = await PDFDocument.load(pdfBytes);
+  assert.equal(pdf.getPageCount(), 3);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeMissingMileage, DistanceProvider } from '../services/mileageService';
+import { validateTrips } from '../services/validationService';
+import { createEmptyTripRow } from '../services/tripRows';
+import { TripRow } from '../types';
+
+const trip = (runNum: string, dropoffAddress: string): TripRow => ({
+  ...createEmptyTripRow(),
+  date: '10/02/2025',
+  runNum,
+  customer: `CUSTOMER ${runNum}`,
+  customerId: runNum,
+  pickupAddress: '10 BAY ST, TORONTO',
+  dropoffAddress,
+  dropoffTime: '09:00',
+});
+
+// Fails like a routing server that is down, but only for one address
+const provider: DistanceProvider = {
+  name: 'test',
+  async routeMiles(stops) {
+    if (stops.includes('1 UNKNOWN RD, TORONTO')) throw new Error('Routing server responded with 500');
+    return 4.24;
+  },
+};
+
+test('leaves a run blank and flags it when its route cannot be measured', async () => {
+  const trips = await computeMissingMileage([trip('R1', '1 FRONT ST W, TORONTO'), trip('R2', '1 UNKNOWN RD, TORONTO')], provider);
+
+  assert.deepEqual(trips.map(t => [t.mileage, t.mileageSource]), [['4.2', 'computed'], ['', 'unavailable']]);
+  assert.deepEqual(
+    validateTrips(trips).filter(issue => issue.rule === 'mileage-numeric').map(issue => [issue.rowIndex, issue.message]),
+    [[1, 'Mileage is missing and could not be computed from the addresses.']]
+  );
+});
+
+test('stops measuring once the conversion is cancelled', async () => {
+  const controller = new AbortController();
+  controller.abort();
+
+  const trips = await computeMissingMileage([trip('R1', '1 FRONT ST W, TORONTO')], provider, controller.signal);
+
+  assert.deepEqual(trips.map(t => [t.mileage, t.mileageSource]), [['', 'unavailable']]);
+});
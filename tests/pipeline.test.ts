@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { compareWithGolden } from './harness/goldenCsv';
+import { convertFixture, listFixtures, loadFixture } from './harness/fixtures';
+import { createReplayBackend } from './harness/replayBackend';
+
+/**
+ * Runs every fixture PDF through the whole pipeline, with the model replaced by its
+ * recorded responses, and diffs the rows with the fixture's golden CSV.
+ */
+for (const name of await listFixtures()) {
+  test(name, async () => {
+    const fixture = await loadFixture(name);
+    const backend = await createReplayBackend(fixture.pdfBytes, fixture.recording);
+
+    const result = await convertFixture(fixture, backend);
+
+    assert.deepEqual(backend.missing, [], `${fixture.spec.description}\nRequests without a recorded response; record them with npm run test:record -- ${name}`);
+    assert.deepEqual(result.failedPages.map(page => page.pageNumber), fixture.spec.failedPages ?? []);
+    const differences = await compareWithGolden(result.trips, path.join(fixture.dir, 'expected.csv'));
+    assert.deepEqual(differences, [], `${fixture.spec.description}\n${differences.join('\n')}`);
+  });
+}
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PDFDocument } from 'pdf-lib';
+import { buildRunReports, summarizeDays } from '../services/runReportService';
+import { buildManifestPdf } from '../services/manifestPdfService';
+import { createEmptyTripRow } from '../services/tripRows';
+import { DEFAULT_TEMPLATES } from '../data/runsheetTemplates';
+import { TripRow } from '../types';
+
+const dictionary = DEFAULT_TEMPLATES[0].abbreviations;
+
+const trip = (runNum: string, pickUpTime: string, mileage: string, comment: string): TripRow => ({
+  ...createEmptyTripRow(),
+  date: '10/02/2025',
+  runNum,
+  customer: `CUSTOMER ${pickUpTime}`,
+  pickUpTime,
+  mileage,
+  comment,
+});
+
+test('totals trips, passengers, mileage, devices and support persons per run and day', () => {
+  const trips = [
+    trip('R10', '09:30', '6.5', 'Pickup Comments:  / Passengers: 2 / Device: Folding Cane or Walker / Dropoff Comments: '),
+    trip('R10', '08:45', '6.5', 'Pickup Comments: Mandatory Escort / Support Person Required / Passengers: 1 / Dropoff Comments: '),
+    trip('R11', '10:00', '', 'Pickup Comments: MSP / Dropoff Comments: '),
+    trip('R12', '11:00', '4', 'Pickup Comments:  / Passengers: 3 / Dropoff Comments: '),
+  ];
+
+  const runs = buildRunReports(trips, dictionary);
+  assert.deepEqual(runs.map(run => run.trips.map(t => t.pickUpTime)), [['08:45', '09:30'], ['10:00'], ['11:00']]);
+  assert.deepEqual(runs.map(run => [run.passengerCount, run.mileage, run.shared]), [[3, 6.5, true], [1, null, false], [3, 4, false]]);
+
+  const [day] = summarizeDays(trips, dictionary);
+  assert.equal(day.tripCount, 4);
+  assert.equal(day.passengerCount, 7);
+  assert.equal(day.totalMileage, 10.5, 'a shared ride counts its mileage once');
+  assert.equal(day.sharedRideMileage, 6.5);
+  assert.equal(day.runsWithoutMileage, 1);
+  assert.equal(day.deviceTrips, 1);
+  assert.equal(day.supportPersonTrips, 2, 'both the expanded and the printed code count');
+});
+
+test('starts each run of the manifest on a new page', async () => {
+  const trips = [
+    trip('R10', '08:45', '6.5', 'Pickup Comments: “Ring twice” — side door / Dropoff Comments: '),
+    trip('R11', '10:00', '', ''),
+  ];
+
+  const pdf = await PDFDocument.load(await buildManifestPdf(buildRunReports(trips, dictionary), 'runsheet.pdf'));
+  assert.equal(pdf.getPageCount(), 2);
+});
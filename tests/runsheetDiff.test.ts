@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffRunsheets, runsheetDiffCsv } from '../services/runsheetDiffService';
+import { createEmptyTripRow } from '../services/tripRows';
+import { parseCsv } from '../utils/csvUtils';
+import { TripRow } from '../types';
+
+const trip = (runNum: string, customerId: string, customer: string, pickUpTime: string): TripRow => ({
+  ...createEmptyTripRow(),
+  date: '10/02/2025',
+  runNum,
+  customerId,
+  customer,
+  pickUpTime,
+});
+
+test('matches trips on Run Num and Customer ID and lists field changes', () => {
+  const previous = [
+    trip('R10', '1001', 'ADA LOVELACE', '08:00'),
+    trip('R11', '1002', 'ALAN TURING', '09:00'),
+    trip('R12', '1003', 'GRACE HOPPER', '10:00'),
+  ];
+  const revised = [
+    trip('R10', '1001', 'Ada  Lovelace', '08:00'),
+    trip('R11', '1002', 'ALAN TURING', '09:15'),
+    trip('R13', '1004', 'KATHERINE JOHNSON', '11:00'),
+  ];
+
+  const diff = diffRunsheets(previous, revised);
+
+  assert.equal(diff.unchangedCount, 1, 'spacing and case are not changes');
+  assert.deepEqual(diff.changed.map(c => c.changes), [[{ field: 'pickUpTime', previous: '09:00', revised: '09:15' }]]);
+  assert.deepEqual(diff.added.map(t => t.customerId), ['1004']);
+  assert.deepEqual(diff.removed.map(t => t.customerId), ['1003']);
+
+  const [header, ...records] = parseCsv(runsheetDiffCsv(diff));
+  assert.deepEqual([header[0], ...header.slice(-2)], ['Change', 'Changed Fields', 'Previous Values']);
+  assert.deepEqual(records.map(r => [r[0], r[2], r.at(-2), r.at(-1)]), [
+    ['changed', 'R11', 'Pick Up Time', 'Pick Up Time: 09:00'],
+    ['added', 'R13', '', ''],
+    ['removed', 'R12', '', ''],
+  ]);
+});
+
+test('matches a passenger listed twice on a run in order', () => {
+  const previous = [trip('R20', '2001', 'LISE MEITNER', '07:00'), trip('R20', '2001', 'LISE MEITNER', '15:00')];
+  const revised = [trip('R20', '2001', 'LISE MEITNER', '07:00')];
+
+  const diff = diffRunsheets(previous, revised);
+
+  assert.equal(diff.unchangedCount, 1);
+  assert.deepEqual(diff.removed.map(t => t.pickUpTime), ['15:00']);
+});
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRunsheetTemplatesJson, runsheetTemplatesToJson, validateWithTemplate } from '../services/templateService';
+import { createEmptyTripRow } from '../services/tripRows';
+
+// A custom template as saved before dates and times were validated
+const savedTemplate = JSON.stringify([{
+  id: 'custom-acme',
+  name: 'Acme Transit',
+  headings: { runNum: ['Run'], customer: ['Client'] },
+  abbreviations: { cities: {}, comments: {} },
+  dateOrders: { slash: 'MDY', dotted: 'DMY' },
+  rules: ['customer-id-required', 'dropoff-address-required', 'mileage-numeric'],
+}]);
+
+test('turns on rules added since a custom template was saved', () => {
+  const [template] = parseRunsheetTemplatesJson(savedTemplate);
+  assert.deepEqual(template.rules, ['customer-id-required', 'dropoff-address-required', 'mileage-numeric', 'date-readable', 'time-readable']);
+
+  const trip = {
+    ...createEmptyTripRow(),
+    date: '31/31/2025',
+    customer: 'ADA LOVELACE',
+    customerId: '1001',
+    dropoffAddress: '5 PIPPIN PL, ETOBICOKE',
+    mileage: '4',
+  };
+  assert.deepEqual(validateWithTemplate([trip], template).map(issue => issue.rule), ['date-readable']);
+
+  // Once saved again, a rule the user turns off stays off
+  const [edited] = parseRunsheetTemplatesJson(runsheetTemplatesToJson([{ ...template, rules: template.rules.filter(rule => rule !== 'time-readable') }]));
+  assert.equal(edited.rules.includes('time-readable'), false);
+});
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findRunsheetDate, PageTextRuns } from '../services/textLayerParser';
+import { DEFAULT_TEMPLATES } from '../data/runsheetTemplates';
+
+const page = (pageNumber: number, lines: string[][]): PageTextRuns => ({
+  pageNumber,
+  runs: lines.flatMap((cells, row) => cells.map((text, column) => ({ text, x: 40 + column * 110, y: 700 - row * 20, width: 60, height: 10 }))),
+  textAngle: 0,
+});
+
+const header = ['Run Num', 'Customer', 'ID', 'Pickup Address', 'Dropoff Address'];
+
+test('reads the runsheet date above the table, day first when it must be', () => {
+  const pages = [
+    // A continuation page without the table: its dates are trip data
+    page(1, [['R10', 'ADA LOVELACE', '1001', 'APPT 03/04/2025', '5 PIPPIN PL']]),
+    page(2, [['SCANNED RUNSHEET 25/10/2025'], header, ['R11', 'ALAN TURING', '1002', '10 BAY ST', '1 FRONT ST W']]),
+  ];
+
+  assert.equal(findRunsheetDate(pages, DEFAULT_TEMPLATES[0]), '10/25/2025');
+  assert.equal(findRunsheetDate(pages.slice(0, 1), DEFAULT_TEMPLATES[0]), null);
+});
@@ -0,0 +1,428 @@
+import { AbbreviationDictionary } from './data/abbreviations';
+
+/**
+ * How a page of the runsheet was read: deterministically from its text layer, by
+ * the AI extraction backend, or not at all because it had nothing to read.
+ */
+export interface PageSource {
+  pageNumber: number;
+  /** `empty` pages had no usable content (blank, or unreadable scans) and yield no trips. */
+  method: 'text-layer' | 'ai' | 'empty';
+  /** Degrees the page was turned clockwise before extraction, when it was crooked. */
+  rotation?: number;
+}
+
+/**
+ * A rectangle on a PDF page in points, measured from the page's bottom-left corner
+ * as in PDF space.
+ */
+export interface TextRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where a trip was extracted from. AI chunks only narrow a trip down to the chunk's
+ * page range, unless the trip's Customer ID can be found in the chunk's text layer;
+ * text-layer pages and page-by-page retries give a single page.
+ */
+export interface TripSource {
+  /** Name of the uploaded file. Missing on results from before it was recorded. */
+  file?: string;
+  firstPage: number;
+  lastPage: number;
+  /** The lines the trip was read from, when it was found in the page's text layer. */
+  region?: TextRegion;
+}
+
+/**
+ * Where a trip's Mileage came from: printed on the runsheet, computed from the
+ * addresses by the mileage service, or typed in during review. `unavailable` marks a
+ * blank Mileage the mileage service failed to compute.
+ */
+export type MileageSource = 'extracted' | 'computed' | 'edited' | 'unavailable';
+
+/**
+ * How far the two passes of consensus mode agreed on a trip.
+ */
+export interface TripConfidence {
+  /** Share of the ten fields both passes read the same, from 0 to 1. */
+  score: number;
+  /** Fields the passes disagreed on, with the value the second pass read. */
+  disputed: Partial<Record<TripField, string>>;
+  /** Set when only one of the passes returned the trip; its score is then 0. */
+  unmatched?: boolean;
+}
+
+/**
+ * One trip in the standard ten-column output. Values are kept as the text that will
+ * be written to the CSV; `source`, `mileageSource` and `confidence` are metadata and
+ * are not part of the standard CSV.
+ */
+export interface TripRow {
+  date: string;
+  runNum: string;
+  pickUpTime: string;
+  customer: string;
+  customerId: string;
+  pickupAddress: string;
+  dropoffAddress: string;
+  dropoffTime: string;
+  comment: string;
+  mileage: string;
+  source?: TripSource;
+  mileageSource?: MileageSource;
+  /** Only set on trips the AI read in consensus mode. */
+  confidence?: TripConfidence;
+}
+
+/** The ten CSV columns of a trip. */
+export type TripField = Exclude<keyof TripRow, 'source' | 'mileageSource' | 'confidence'>;
+
+/** Columns an export profile can include: the ten trip columns plus metadata. */
+export type ExportField = TripField | 'mileageSource' | 'sourceFile' | 'sourcePage' | 'sourceRegion' | 'confidence';
+
+/**
+ * The integrity rules from the "Final Validation" section of the prompt, checked in code.
+ */
+export type ValidationRule =
+  | 'customer-id-required'
+  | 'dropoff-address-required'
+  | 'dropoff-time-required'
+  | 'mileage-numeric'
+  | 'mileage-consistent-in-run'
+  | 'city-abbreviation-remaining'
+  | 'mileage-computed'
+  | 'date-readable'
+  | 'time-readable';
+
+/**
+ * Runsheet columns the converter reads, identified by their heading.
+ */
+export type TemplateColumn =
+  | 'runNum'
+  | 'pickupTime'
+  | 'customer'
+  | 'customerId'
+  | 'pickupAddress'
+  | 'dropoffAddress'
+  | 'dropoffTime'
+  | 'passengers'
+  | 'device'
+  | 'dropoffComments'
+  | 'mileage';
+
+/** Order of the numbers in a printed date, e.g. 10/2/2025 is MDY in the US and DMY elsewhere. */
+export type DateOrder = 'MDY' | 'DMY';
+
+/**
+ * A transit provider's runsheet layout. It drives both the prompt sent to the
+ * extraction backend and the post-processing: the text-layer parser finds columns by
+ * these headings, the dictionary expands the provider's codes and only the listed
+ * rules are checked.
+ */
+export interface RunsheetTemplate {
+  id: string;
+  name: string;
+  /**
+   * Column headings as printed, e.g. "Nb." or "Drop_Off_Comments". Matching ignores
+   * case and the punctuation . _ :, and the first heading is the one named in the prompt.
+   * Columns the layout doesn't have are left out.
+   */
+  headings: Partial<Record<TemplateColumn, string[]>>;
+  /**
+   * Other text on page one that identifies the provider, such as its name in the
+   * title. Each one found counts towards auto-detection like a matched heading.
+   */
+  markers?: string[];
+  /** The provider's city and comment codes. The user's own abbreviations are layered on top. */
+  abbreviations: AbbreviationDictionary;
+  /** How dates written with slashes or dashes, and with dots, are to be read. */
+  dateOrders: { slash: DateOrder; dotted: DateOrder };
+  rules: ValidationRule[];
+  /** Extra instructions for the model about this layout. */
+  notes?: string;
+}
+
+/**
+ * The template a conversion used, and whether it was detected from page one rather
+ * than chosen.
+ */
+export interface AppliedTemplate {
+  id: string;
+  name: string;
+  detected: boolean;
+}
+
+/**
+ * A named layout for exported trips, so each downstream system gets the columns,
+ * headers and formats it expects.
+ */
+export interface ExportProfile {
+  id: string;
+  name: string;
+  /** Columns to export, in order. `header` renames the column. */
+  columns: { field: ExportField; header?: string }[];
+  /** Date pattern using YYYY, YY, MM, M, DD, D. Omit to keep dates as extracted. */
+  dateFormat?: string;
+  /** Time pattern using HH, H, hh, h, mm, A, a. Omit to keep times as extracted. */
+  timeFormat?: string;
+  delimiter: ',' | ';' | '\t' | '|';
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface ValidationIssue {
+  /** Index into the trips array (0-based). */
+  rowIndex: number;
+  rule: ValidationRule;
+  field: TripField;
+  message: string;
+}
+
+/**
+ * A page that could not be extracted even after retrying it on its own.
+ */
+export interface FailedPage {
+  pageNumber: number;
+  reason: string;
+}
+
+/**
+ * A run whose rows carried different Mileage values, and the value every row of
+ * the run was given.
+ */
+export interface MileageConflict {
+  date: string;
+  runNum: string;
+  /** Every distinct value seen in the run, in document order. */
+  values: string[];
+  chosen: string;
+  /** `majority`: the most common numeric value; `first-seen`: a tie, broken by document order. */
+  rule: 'majority' | 'first-seen';
+}
+
+/**
+ * A trip dropped because the same passenger on the same run was extracted twice,
+ * e.g. from a page read in two overlapping chunks.
+ */
+export interface DuplicateTrip {
+  date: string;
+  runNum: string;
+  customer: string;
+  customerId: string;
+}
+
+export interface ReconciliationReport {
+  mileageConflicts: MileageConflict[];
+  duplicatesRemoved: DuplicateTrip[];
+}
+
+/**
+ * A field whose value differs between two conversions of the same trip.
+ */
+export interface FieldChange {
+  field: TripField;
+  previous: string;
+  revised: string;
+}
+
+/**
+ * Trip-level differences between an earlier conversion and a revised runsheet, with
+ * trips matched on Run Num and Customer ID. `added` and `changed` follow the revised
+ * runsheet's order, `removed` the earlier one's.
+ */
+export interface RunsheetDiff {
+  added: TripRow[];
+  removed: TripRow[];
+  changed: { previous: TripRow; revised: TripRow; changes: FieldChange[] }[];
+  unchangedCount: number;
+}
+
+/**
+ * One run's trips in pickup-time order, with the figures the daily summary and the
+ * run's manifest show.
+ */
+export interface RunReport {
+  date: string;
+  runNum: string;
+  /** The run's trips by pickup time, pickups after midnight counting as the next day; trips without a readable time go last. */
+  trips: TripRow[];
+  /** Sum of the Nb. values, counting a trip without one as one passenger. */
+  passengerCount: number;
+  /** The run's Mileage, null when it is blank or not a number. */
+  mileage: number | null;
+  /** More than one trip shares the run. */
+  shared: boolean;
+  /** Trips with a Device entry in their comment. */
+  deviceTrips: number;
+  /** Trips whose comment asks for a mandatory support person or escort. */
+  supportPersonTrips: number;
+}
+
+/**
+ * The totals supervisors keep per runsheet day.
+ */
+export interface DailySummary {
+  date: string;
+  runs: RunReport[];
+  tripCount: number;
+  passengerCount: number;
+  /** Sum of each run's mileage, counted once per run. */
+  totalMileage: number;
+  /** The part of totalMileage driven on shared runs. */
+  sharedRideMileage: number;
+  /** Runs without a numeric mileage, left out of the mileage totals. */
+  runsWithoutMileage: number;
+  deviceTrips: number;
+  supportPersonTrips: number;
+}
+
+export interface ConversionResult {
+  trips: TripRow[];
+  pageSources: PageSource[];
+  issues: ValidationIssue[];
+  failedPages: FailedPage[];
+  reconciliation: ReconciliationReport;
+  /** Set when the run was cancelled; pages it never reached are listed in failedPages. */
+  cancelled?: boolean;
+  /** Missing on results from before templates existed, which used the Toronto layout. */
+  template?: AppliedTemplate;
+}
+
+/**
+ * Steps of a conversion, in the order they run.
+ */
+export type ConversionStage =
+  | 'loading'
+  | 'text-layer'
+  | 'page-check'
+  | 'extracting'
+  | 'combining'
+  | 'dates'
+  | 'reconciling'
+  | 'abbreviations'
+  | 'mileage'
+  | 'validating';
+
+/**
+ * A snapshot of a running conversion. Each event carries every counter, so a
+ * listener only needs the latest one.
+ */
+export interface ConversionProgress {
+  stage: ConversionStage;
+  /** Human-readable description of the current step. */
+  message: string;
+  /** 1-based chunk being extracted, or null outside the extracting stage. */
+  chunkIndex: number | null;
+  /** Number of chunks sent to the extraction backend. */
+  chunkCount: number;
+  /** Pages whose trips are final, including those read from the text layer. */
+  pagesDone: number;
+  pageCount: number;
+  /** Backend requests repeated after a busy error or to re-check a page. */
+  retries: number;
+  cacheHits: number;
+  cacheMisses: number;
+  /** Known once the text layer has been read; null until then. */
+  template: AppliedTemplate | null;
+  /** The date printed above the table as MM/DD/YYYY, known with the template; null when there is none. */
+  headerDate: string | null;
+}
+
+/**
+ * The trips of a finished part of the document: one text-layer page, one chunk, or
+ * pages found to be empty.
+ * Streamed as soon as it's done, so a cancelled conversion can keep it.
+ */
+export interface ConvertedSegment {
+  pages: PageSource[];
+  trips: TripRow[];
+  failedPages: FailedPage[];
+}
+
+/**
+ * Lifecycle of one file in the batch queue. `ready` files are waiting for the user
+ * to start the batch; `queued` files are waiting for a free conversion slot.
+ */
+export type JobStatus = 'ready' | 'queued' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+export interface ConversionJob {
+  id: string;
+  file: File;
+  status: JobStatus;
+  /** Latest progress of a running conversion; null while uploading or when idle. */
+  progress: ConversionProgress | null;
+  result: ConversionResult | null;
+  error: string | null;
+  /** SHA-256 of the PDF, filled in shortly after the file is added. */
+  pdfHash?: string;
+  /** The history entry this job's result is saved to. */
+  historyId?: string;
+  /** An earlier conversion of the same PDF, offered instead of converting again. */
+  cachedEntry?: HistoryEntry | null;
+}
+
+/**
+ * A finished conversion kept in the browser's IndexedDB, so results survive a
+ * page reload and the same PDF doesn't have to be converted twice.
+ */
+export interface HistoryEntry {
+  id: string;
+  pdfHash: string;
+  fileName: string;
+  /** ISO timestamp of the conversion. */
+  convertedAt: string;
+  pageCount: number;
+  /** The latest result, including edits made during review. */
+  result: ConversionResult;
+  /** The uploaded PDF, for the page preview when the entry is re-opened. */
+  pdf: Blob;
+}
+
+/**
+ * Messages streamed back by the /api/convert endpoint, one JSON object per line.
+ */
+export type ConvertStreamEvent =
+  | { type: 'progress'; progress: ConversionProgress }
+  | { type: 'segment'; segment: ConvertedSegment }
+  | { type: 'result'; result: ConversionResult }
+  | { type: 'error'; message: string };
+
+/**
+ * The JSON export, version 1. Documented in schemas/runsheet-export.v1.schema.json;
+ * keep the two in sync.
+ */
+export interface RunsheetExport {
+  schemaVersion: 1;
+  generatedAt: string;
+  runsheets: {
+    sourceFile: string;
+    trips: RunsheetExportTrip[];
+    issues: { row: number; rule: ValidationRule; field: TripField; message: string }[];
+    failedPages: FailedPage[];
+  }[];
+}
+
+export interface RunsheetExportTrip {
+  /** YYYY-MM-DD when the date could be read, otherwise the extracted text. */
+  date: string;
+  runNum: string;
+  /** HH:mm (24-hour) when the time could be read, otherwise the extracted text. */
+  pickUpTime: string;
+  customer: string;
+  customerId: string;
+  pickupAddress: string;
+  dropoffAddress: string;
+  dropoffTime: string;
+  comment: string;
+  /** null when Mileage is blank or not a number. */
+  mileage: number | null;
+  /** null exactly when mileage is null. */
+  mileageSource: MileageSource | null;
+  pages: { firstPage: number; lastPage: number; region?: TextRegion } | null;
+  /** Only present for trips extracted in consensus mode. */
+  confidence?: number;
+}
@@ -0,0 +1,25 @@
+import { AbbreviationDictionary } from '../data/abbreviations';
+import { parseAbbreviationJson } from '../services/abbreviationService';
+
+const STORAGE_KEY = 'runsheet-converter.abbreviations';
+
+const EMPTY_OVERRIDES: AbbreviationDictionary = { cities: {}, comments: {} };
+
+/**
+ * Reads the user's added or overridden abbreviations from local storage.
+ * Corrupt or missing data falls back to no overrides.
+ */
+export const loadAbbreviationOverrides = (): AbbreviationDictionary => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return EMPTY_OVERRIDES;
+  try {
+    return parseAbbreviationJson(stored);
+  } catch (error) {
+    console.warn('Ignoring invalid abbreviation overrides in local storage.', error);
+    return EMPTY_OVERRIDES;
+  }
+};
+
+export const saveAbbreviationOverrides = (overrides: AbbreviationDictionary) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+};
@@ -0,0 +1,8 @@
+const STORAGE_KEY = 'runsheet-converter.consensus';
+
+/** Whether new conversions read each page twice and compare the passes. Off by default. */
+export const loadConsensusMode = (): boolean => localStorage.getItem(STORAGE_KEY) === 'true';
+
+export const saveConsensusMode = (enabled: boolean) => {
+  localStorage.setItem(STORAGE_KEY, String(enabled));
+};
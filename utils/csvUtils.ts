@@ -0,0 +1,73 @@
+
+/**
+ * Parses CSV text per RFC 4180: fields may be wrapped in double quotes, quoted fields
+ * may contain commas, line breaks and "" escapes, and records end with CRLF or LF.
+ * Blank lines between records are skipped.
+ * @param text - The CSV text to parse.
+ * @returns One array of field values per record.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldStarted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || fieldStarted) {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+    fieldStarted = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+      fieldStarted = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+      fieldStarted = true;
+    }
+  }
+
+  if (fieldStarted || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
+
+const quoteField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * Serializes records to RFC 4180 CSV. Every field is quoted and records are
+ * separated by CRLF, so values with commas, quotes or line breaks survive intact.
+ * A different delimiter (e.g. ';' or a tab) can be used for systems that expect one.
+ */
+export const serializeCsv = (records: string[][], delimiter: string = ','): string => {
+  return records.map(record => record.map(quoteField).join(delimiter)).join('\r\n');
+};
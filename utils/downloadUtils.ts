@@ -0,0 +1,17 @@
+
+/**
+ * Triggers a browser download of the given blob.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+
+  document.body.appendChild(link);
+  link.click();
+
+  // Clean up after download to prevent memory leaks
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,30 @@
+import { ExportProfile } from '../types';
+import { parseExportProfilesJson } from '../services/exportProfileService';
+
+const PROFILES_KEY = 'runsheet-converter.exportProfiles';
+const SELECTED_KEY = 'runsheet-converter.exportProfile';
+
+/**
+ * Reads the user's own export profiles from local storage.
+ * Corrupt or missing data falls back to none.
+ */
+export const loadCustomExportProfiles = (): ExportProfile[] => {
+  const stored = localStorage.getItem(PROFILES_KEY);
+  if (!stored) return [];
+  try {
+    return parseExportProfilesJson(stored);
+  } catch (error) {
+    console.warn('Ignoring invalid export profiles in local storage.', error);
+    return [];
+  }
+};
+
+export const saveCustomExportProfiles = (profiles: ExportProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadSelectedExportProfileId = (): string | null => localStorage.getItem(SELECTED_KEY);
+
+export const saveSelectedExportProfileId = (id: string) => {
+  localStorage.setItem(SELECTED_KEY, id);
+};
@@ -0,0 +1,9 @@
+/**
+ * SHA-256 of the given bytes as a lowercase hex string. Uses Web Crypto, which is
+ * available in browsers and in Node 20+.
+ */
+export const sha256Hex = async (data: ArrayBuffer | Uint8Array): Promise<string> => {
+  // Web Crypto only accepts views over a plain ArrayBuffer, so copy other views
+  const digest = await crypto.subtle.digest('SHA-256', data instanceof ArrayBuffer ? data : data.slice());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,65 @@
+import { HistoryEntry } from '../types';
+
+const DB_NAME = 'runsheet-converter';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        store.createIndex('pdfHash', 'pdfHash');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+/**
+ * Runs one request in its own transaction and resolves with its result once the
+ * transaction has committed.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE, mode);
+    const request = run(transaction.objectStore(HISTORY_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Every saved conversion, newest first.
+ */
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore('readonly', store => store.getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.sort((a, b) => b.convertedAt.localeCompare(a.convertedAt));
+};
+
+/**
+ * The most recent conversion of the PDF with this hash, if any.
+ */
+export const findHistoryEntryByHash = async (pdfHash: string): Promise<HistoryEntry | null> => {
+  const entries = await withStore('readonly', store => store.index('pdfHash').getAll(pdfHash) as IDBRequest<HistoryEntry[]>);
+  return entries.sort((a, b) => b.convertedAt.localeCompare(a.convertedAt))[0] ?? null;
+};
+
+export const putHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  await withStore('readwrite', store => store.put(entry));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,31 @@
+import { RunsheetTemplate } from '../types';
+import { parseRunsheetTemplatesJson, runsheetTemplatesToJson } from '../services/templateService';
+
+const TEMPLATES_KEY = 'runsheet-converter.templates';
+const SELECTED_KEY = 'runsheet-converter.template';
+
+/**
+ * Reads the user's own runsheet templates from local storage.
+ * Corrupt or missing data falls back to none.
+ */
+export const loadCustomTemplates = (): RunsheetTemplate[] => {
+  const stored = localStorage.getItem(TEMPLATES_KEY);
+  if (!stored) return [];
+  try {
+    return parseRunsheetTemplatesJson(stored);
+  } catch (error) {
+    console.warn('Ignoring invalid runsheet templates in local storage.', error);
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: RunsheetTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, runsheetTemplatesToJson(templates));
+};
+
+/** The template chosen for new conversions, or 'auto' to detect it. */
+export const loadSelectedTemplateId = (): string => localStorage.getItem(SELECTED_KEY) ?? 'auto';
+
+export const saveSelectedTemplateId = (id: string) => {
+  localStorage.setItem(SELECTED_KEY, id);
+};
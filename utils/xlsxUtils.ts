@@ -0,0 +1,155 @@
+import JSZip from 'jszip';
+
+/**
+ * A typed worksheet cell. Dates and times are Excel serial numbers shown with
+ * `format` (an Excel number format such as "yyyy-mm-dd" or "hh:mm").
+ */
+export type XlsxCell =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'date'; value: number; format: string }
+  | null;
+
+export interface XlsxSheet {
+  name: string;
+  /** The first row is written in bold as the header. */
+  rows: XlsxCell[][];
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const FIRST_CUSTOM_FORMAT_ID = 164; // Lower ids are Excel's built-in number formats
+const HEADER_STYLE = 1;
+
+const escapeXml = (value: string) =>
+  value
+    // Control characters other than tab and line breaks are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/**
+ * Converts a calendar date to an Excel serial day number (days since 1899-12-30).
+ */
+export const toExcelDate = (year: number, month: number, day: number): number => {
+  return Date.UTC(year, month - 1, day) / 86_400_000 + 25_569;
+};
+
+/**
+ * Converts a time of day to the fraction of a day Excel stores.
+ */
+export const toExcelTime = (hours: number, minutes: number): number => (hours * 60 + minutes) / 1_440;
+
+const cellXml = (cell: XlsxCell, ref: string, style: number): string => {
+  if (!cell) return '';
+  const styleAttr = style ? ` s="${style}"` : '';
+  switch (cell.type) {
+    case 'string':
+      return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+    case 'number':
+    case 'date':
+      return `<c r="${ref}"${styleAttr}><v>${cell.value}</v></c>`;
+  }
+};
+
+const sheetXml = (sheet: XlsxSheet, styleForFormat: (format: string) => number): string => {
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = row.map((cell, columnIndex) => {
+      const style = rowIndex === 0 ? HEADER_STYLE : cell?.type === 'date' ? styleForFormat(cell.format) : 0;
+      return cellXml(cell, `${columnName(columnIndex)}${rowIndex + 1}`, style);
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData>${rows.join('')}</sheetData>`
+    + '</worksheet>';
+};
+
+const stylesXml = (formats: string[]): string => {
+  const numFmts = formats
+    .map((format, i) => `<numFmt numFmtId="${FIRST_CUSTOM_FORMAT_ID + i}" formatCode="${escapeXml(format)}"/>`)
+    .join('');
+  const dateXfs = formats
+    .map((_, i) => `<xf numFmtId="${FIRST_CUSTOM_FORMAT_ID + i}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`)
+    .join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + (formats.length ? `<numFmts count="${formats.length}">${numFmts}</numFmts>` : '')
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + `<cellXfs count="${2 + formats.length}">`
+    + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+    + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+    + dateXfs
+    + '</cellXfs>'
+    + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+    + '</styleSheet>';
+};
+
+/**
+ * Excel sheet names are limited to 31 characters and may not contain []:*?/\
+ */
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet';
+
+/**
+ * Builds a minimal Office Open XML workbook. Strings are written inline, so text
+ * such as Customer IDs with leading zeros is kept exactly as given.
+ */
+export const createXlsx = async (sheets: XlsxSheet[]): Promise<Blob> => {
+  const formats: string[] = [];
+  const styleForFormat = (format: string) => {
+    if (!formats.includes(format)) formats.push(format);
+    return 2 + formats.indexOf(format);
+  };
+
+  const zip = new JSZip();
+  sheets.forEach((sheet, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet, styleForFormat)));
+  zip.file('xl/styles.xml', stylesXml(formats));
+
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+    + '</Types>');
+
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '</Relationships>');
+
+  zip.file('xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + '<sheets>'
+    + sheets.map((sheet, i) => `<sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+    + '</sheets></workbook>');
+
+  zip.file('xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+    + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+    + '</Relationships>');
+
+  return zip.generateAsync({ type: 'blob', mimeType: XLSX_MIME_TYPE, compression: 'DEFLATE' });
+};
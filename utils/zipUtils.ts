@@ -0,0 +1,21 @@
+import JSZip from 'jszip';
+
+/**
+ * Bundles files into a ZIP archive. Duplicate names get a numeric suffix so
+ * two runsheets with the same file name don't overwrite each other.
+ */
+export const createZip = async (files: { name: string; content: string | Blob }[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  for (const file of files) {
+    let name = file.name;
+    for (let n = 2; usedNames.has(name); n++) {
+      name = file.name.replace(/(\.[^/.]+)?$/, ext => ` (${n})${ext}`);
+    }
+    usedNames.add(name);
+    zip.file(name, file.content);
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+};